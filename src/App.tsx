@@ -1,71 +1,144 @@
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import type { ThreeEvent } from "@react-three/fiber";
 import { Environment, OrbitControls, useCursor } from "@react-three/drei";
 import {
   Suspense,
   useCallback,
   useEffect,
   useMemo,
+  useReducer,
   useRef,
   useState,
 } from "react";
-import type { Group } from "three";
+import type { AmbientLight, Box3, DirectionalLight, Group } from "three";
 import { Vector3 } from "three";
 import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
 import { Candle } from "./models/candle";
+import { NumberCandle } from "./models/numberCandle";
 import { Cake } from "./models/cake";
 import { Table } from "./models/table";
 import { PictureFrame } from "./models/pictureFrame";
 import { Bouquet } from "./models/bouquet";
 import { Fireworks } from "./components/Fireworks";
 import { FallingSparkles } from "./components/FallingSparkles";
+import { ConfettiCannons } from "./components/ConfettiCannons";
+import { FocusRing } from "./components/FocusRing";
+import { LiveRegion } from "./components/LiveRegion";
+import { SceneNavigator } from "./components/SceneNavigator";
 import { BirthdayCard } from "./components/BirthdayCard";
 import { CardOverlay } from "./components/CardOverlay";
+import { GreetingLinkGenerator } from "./components/GreetingLinkGenerator";
+import { SceneErrorBoundary } from "./components/SceneErrorBoundary";
+import { SceneErrorOverlay } from "./components/SceneErrorOverlay";
+import { SoundControl } from "./components/SoundControl";
+import { TimelineScrubber } from "./components/TimelineScrubber";
+import {
+  DEFAULT_CHAR_DELAY,
+  DEFAULT_POST_TYPING_DELAY,
+  resolveIntroLines,
+} from "./scene/manifest";
+import type {
+  BirthdayCardConfig,
+  BouquetConfig,
+  CandlesConfig,
+  FrameConfig,
+  SceneManifest,
+  Vec3,
+} from "./scene/manifest";
+import { useSceneManifest } from "./scene/useSceneManifest";
+import type { ManifestIssue } from "./scene/validateManifest";
+import { DEFAULT_THEME, THEMES, themeStyle } from "./scene/themes";
+import {
+  countCandles,
+  DEFAULT_CAKE_TOP_RADIUS,
+  layoutCandles,
+} from "./scene/candleLayout";
+import { EditorPanel } from "./editor/EditorPanel";
+import { LayoutGizmo } from "./editor/LayoutGizmo";
+import type { GizmoMode } from "./editor/LayoutGizmo";
+import {
+  applyLayout,
+  createLayoutHistory,
+  layoutFromManifest,
+  layoutHistoryReducer,
+  tableObjectKey,
+} from "./editor/layout";
+
+import { DEFAULT_INTRO_TIMELINE } from "./timeline/introTimeline";
+import type { IntroTargetName } from "./timeline/introTimeline";
+import {
+  compileTimeline,
+  createTimelinePlayer,
+  mergeTimelines,
+} from "./timeline/timeline";
+import type { CompiledTimeline } from "./timeline/timeline";
+import {
+  createIntroSchedule,
+  typedLinesAt,
+  typedTicksAt,
+} from "./timeline/introSchedule";
+import { createPlaybackClock } from "./timeline/playbackClock";
+import type { PlaybackClock } from "./timeline/playbackClock";
+import { setTargetProperty } from "./timeline/targets";
+import { useBlowDetector } from "./audio/useBlowDetector";
+import {
+  AudioManagerContext,
+  useCreateAudioManager,
+} from "./audio/audioManagerContext";
+import type { MicrophoneStatus } from "./audio/useBlowDetector";
+import { createFireworkSounds } from "./audio/fireworkSounds";
+import type { FireworkSounds } from "./audio/fireworkSounds";
+import { createMusicPulse } from "./audio/musicPulse";
+import { createSurfaceSet } from "./ambient/surfaces";
+import { InputContext, useCreateInputRouter } from "./input/inputContext";
+import { useCoarsePointer } from "./input/useCoarsePointer";
+import { useSwipeUp } from "./input/useSwipeUp";
+import { createAnnouncer } from "./a11y/announcer";
+import { clipTitle, listTableObjects, spokenIntro } from "./a11y/tableObjects";
+import type { TableObjectItem } from "./a11y/tableObjects";
+import type { SurfaceSet } from "./ambient/surfaces";
+import {
+  ExperienceContext,
+  useExperienceMachine,
+} from "./experience/experienceContext";
+import { hasReached, isCandleLitIn, pickCandlesToBlow } from "./experience/machine";
+import type { ExperiencePhase } from "./experience/machine";
 
 import "./App.css";
 
 const clamp = (value: number, min: number, max: number) =>
   Math.min(max, Math.max(min, value));
 
-const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
-
-const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
-
 type AnimatedSceneProps = {
-  isPlaying: boolean;
+  playback: PlaybackClock;
+  /** Intro time at which the timeline starts playing. */
+  sceneStart: number;
+  timeline: CompiledTimeline;
   onBackgroundFadeChange?: (opacity: number) => void;
   onEnvironmentProgressChange?: (progress: number) => void;
-  candleLit: boolean;
-  onAnimationComplete?: () => void;
+  candles?: CandlesConfig;
+  litCandles: boolean[];
+  onCandleClick: (index: number) => void;
+  readBreath?: () => number;
+  frames: ReadonlyArray<FrameConfig>;
+  bouquets: ReadonlyArray<BouquetConfig>;
   cards: ReadonlyArray<BirthdayCardConfig>;
   activeCardId: string | null;
   onToggleCard: (id: string) => void;
-  onShowOverlay: () => void;
+  onShowOverlay: (id: string) => void;
   activeFrameId: string | null;
   onToggleFrame: (id: string) => void;
   activeBouquetId: string | null;
   onToggleBouquet: (id: string) => void;
   onDragChange: (isDragging: boolean) => void;
+  /** Receives the table and cake bounds so falling particles can land on them. */
+  surfaces?: SurfaceSet;
+  /** Ring around the table object that has keyboard focus. */
+  focusRing?: { position: Vec3; radius: number; color: string } | null;
 };
 
-const CAKE_START_Y = 10;
-const CAKE_END_Y = 0;
-const CAKE_DESCENT_DURATION = 3;
-
-const TABLE_START_Z = 30;
-const TABLE_END_Z = 0;
-const TABLE_SLIDE_DURATION = 0.7;
-const TABLE_SLIDE_START = CAKE_DESCENT_DURATION - TABLE_SLIDE_DURATION - 0.1;
-
-const CANDLE_START_Y = 5;
-const CANDLE_END_Y = 0;
-const CANDLE_DROP_DURATION = 1.2;
-const CANDLE_DROP_START =
-  Math.max(CAKE_DESCENT_DURATION, TABLE_SLIDE_START + TABLE_SLIDE_DURATION) +
-  1.0;
-
-const totalAnimationTime = CANDLE_DROP_START + CANDLE_DROP_DURATION;
-
 const ORBIT_TARGET = new Vector3(0, 1, 0);
+const FIREWORKS_CENTER = ORBIT_TARGET.toArray();
 const ORBIT_INITIAL_RADIUS = 3;
 const ORBIT_INITIAL_HEIGHT = 1;
 const ORBIT_INITIAL_AZIMUTH = Math.PI / 2;
@@ -74,65 +147,15 @@ const ORBIT_MAX_DISTANCE = 8;
 const ORBIT_MIN_POLAR = Math.PI * 0;
 const ORBIT_MAX_POLAR = Math.PI / 2;
 
-const BACKGROUND_FADE_DURATION = 1;
-const BACKGROUND_FADE_OFFSET = 0;
-const BACKGROUND_FADE_END = Math.max(
-  CANDLE_DROP_START - BACKGROUND_FADE_OFFSET,
-  BACKGROUND_FADE_DURATION
-);
-const BACKGROUND_FADE_START = Math.max(
-  BACKGROUND_FADE_END - BACKGROUND_FADE_DURATION,
-  0
-);
-
-const TYPED_LINES = [
-  "> Hello, Ate Bianca",
-  "...",
-  "> Happy Birthday!",
-  "...",
-  "> I just want to say...",
-  "> Please enjoy your special day.",
-  "> Wishing you all the best and a very good future.",
-  "...",
-  "> Just a simple message for you.",
-  "> Happy Birthdayyyyyy!!! ٩(◕‿◕)۶ ٩(◕‿◕)۶ ٩(◕‿◕)۶"
-];
-
-const TYPED_CHAR_DELAY = 100;
-const POST_TYPING_SCENE_DELAY = 1000;
-
-type BirthdayCardConfig = {
-  id: string;
-  image: string;
-  position: [number, number, number];
-  rotation: [number, number, number];
-};
-
-const BIRTHDAY_CARDS: ReadonlyArray<BirthdayCardConfig> = [
-  {
-    id: "confetti",
-    image: "/letter_five.png",
-    position: [1, 0.081, -2],
-    rotation: [-Math.PI / 2 , 0, Math.PI / 3],
-  }
-];
-
-const FRAME_AUDIO_MAPPING: Record<string, { src: string; startAt: number }> = {
-  "frame1": { src: "/Colbie Caillat.mp3", startAt: 6 },
-  "frame2": { src: "/Prettiest To Me.mp3", startAt: 5 },
-  "frame3": { src: "/Gwiyomi.mp3", startAt: 6 },
-  "frame4": { src: "/Aphrodite.mp3", startAt: 4 }
-};
-
 import { useTexture } from "@react-three/drei";
 
 const CARD_WIDTH = 1;
 const CARD_HEIGHT = 0.75;
 
-function CardStackPlaceholder({ position, rotation, onClick }: { position: [number, number, number], rotation: [number, number, number], onClick: () => void }) {
+function CardStackPlaceholder({ image, position, rotation, onClick }: { image: string, position: Vec3, rotation: Vec3, onClick: () => void }) {
     const [hovered, setHovered] = useState(false);
     useCursor(hovered, "pointer", "auto");
-    const texture = useTexture("/letter_one.png");
+    const texture = useTexture(image);
     
     return (
         <group 
@@ -165,11 +188,17 @@ function CardStackPlaceholder({ position, rotation, onClick }: { position: [numb
 }
 
 function AnimatedScene({
-  isPlaying,
+  playback,
+  sceneStart,
+  timeline,
   onBackgroundFadeChange,
   onEnvironmentProgressChange,
-  candleLit,
-  onAnimationComplete,
+  candles,
+  litCandles,
+  onCandleClick,
+  readBreath,
+  frames,
+  bouquets,
   cards,
   activeCardId,
   onToggleCard,
@@ -179,16 +208,60 @@ function AnimatedScene({
   activeBouquetId,
   onToggleBouquet,
   onDragChange,
+  surfaces,
+  focusRing,
 }: AnimatedSceneProps) {
   const cakeGroup = useRef<Group>(null);
   const tableGroup = useRef<Group>(null);
   const candleGroup = useRef<Group>(null);
-  const animationStartRef = useRef<number | null>(null);
-  const hasPrimedRef = useRef(false);
-  const hasCompletedRef = useRef(false);
-  const completionNotifiedRef = useRef(false);
+  const ambientLightRef = useRef<AmbientLight>(null);
+  const directionalLightRef = useRef<DirectionalLight>(null);
+  const appliedTimeRef = useRef<number | null>(null);
   const backgroundOpacityRef = useRef(1);
   const environmentProgressRef = useRef(0);
+  // Plain objects the overlay and environment tracks write into; read back after every seek.
+  const overlayStateRef = useRef({ backgroundOpacity: 1 });
+  const environmentStateRef = useRef({ progress: 0 });
+  const targetsRef = useRef<Partial<Record<IntroTargetName, object | null>>>({});
+  const [cakeTopRadius, setCakeTopRadius] = useState(DEFAULT_CAKE_TOP_RADIUS);
+  const candlePlacements = useMemo(
+    () => layoutCandles(candles, cakeTopRadius),
+    [candles, cakeTopRadius]
+  );
+  const [tableBounds, setTableBounds] = useState<Box3 | null>(null);
+  const [cakeBounds, setCakeBounds] = useState<Box3 | null>(null);
+  const measureCake = useCallback((bounds: Box3) => {
+    const size = bounds.getSize(new Vector3());
+    setCakeTopRadius(Math.min(size.x, size.z) / 2);
+    setCakeBounds(bounds);
+  }, []);
+
+  useEffect(() => {
+    const table = tableGroup.current;
+    if (!surfaces || !table || !tableBounds) {
+      return;
+    }
+    return surfaces.track("table", table, tableBounds);
+  }, [surfaces, tableBounds]);
+
+  useEffect(() => {
+    const cake = cakeGroup.current;
+    if (!surfaces || !cake || !cakeBounds) {
+      return;
+    }
+    return surfaces.track("cake", cake, cakeBounds);
+  }, [surfaces, cakeBounds]);
+
+  const player = useMemo(
+    () =>
+      createTimelinePlayer(timeline, (track, value) => {
+        const target = targetsRef.current[track.target as IntroTargetName];
+        if (target) {
+          setTargetProperty(target, track.property, value);
+        }
+      }),
+    [timeline]
+  );
 
   useEffect(() => {
     onBackgroundFadeChange?.(backgroundOpacityRef.current);
@@ -211,7 +284,13 @@ function AnimatedScene({
     }
   };
 
-  useFrame(({ clock }) => {
+  const seek = (time: number) => {
+    player.seek(time);
+    emitBackgroundOpacity(overlayStateRef.current.backgroundOpacity);
+    emitEnvironmentProgress(environmentStateRef.current.progress);
+  };
+
+  useFrame(() => {
     const cake = cakeGroup.current;
     const table = tableGroup.current;
     const candle = candleGroup.current;
@@ -220,173 +299,63 @@ function AnimatedScene({
       return;
     }
 
-    if (!hasPrimedRef.current) {
-      cake.position.set(0, CAKE_START_Y, 0);
-      cake.rotation.set(0, 0, 0);
-      table.position.set(0, 0, TABLE_START_Z);
-      table.rotation.set(0, 0, 0);
-      candle.position.set(0, CANDLE_START_Y, 0);
-      candle.visible = false;
-      hasPrimedRef.current = true;
-    }
-
-    if (!isPlaying) {
-      emitBackgroundOpacity(1);
-      emitEnvironmentProgress(0);
-      animationStartRef.current = null;
-      hasCompletedRef.current = false;
-      completionNotifiedRef.current = false;
-      return;
-    }
-
-    if (hasCompletedRef.current) {
-      emitBackgroundOpacity(0);
-      emitEnvironmentProgress(1);
-      if (!completionNotifiedRef.current) {
-        completionNotifiedRef.current = true;
-        onAnimationComplete?.();
-      }
-      return;
-    }
-
-    if (animationStartRef.current === null) {
-      animationStartRef.current = clock.elapsedTime;
-    }
-
-    const elapsed = clock.elapsedTime - animationStartRef.current;
-    const clampedElapsed = clamp(elapsed, 0, totalAnimationTime);
-
-    const cakeProgress = clamp(clampedElapsed / CAKE_DESCENT_DURATION, 0, 1);
-    const cakeEase = easeOutCubic(cakeProgress);
-    cake.position.y = lerp(CAKE_START_Y, CAKE_END_Y, cakeEase);
-    cake.position.x = 0;
-    cake.position.z = 0;
-    cake.rotation.y = cakeEase * Math.PI * 2;
-    cake.rotation.x = 0;
-    cake.rotation.z = 0;
-
-    let tableZ = TABLE_START_Z;
-    if (clampedElapsed >= TABLE_SLIDE_START) {
-      const tableProgress = clamp(
-        (clampedElapsed - TABLE_SLIDE_START) / TABLE_SLIDE_DURATION,
-        0,
-        1
-      );
-      const tableEase = easeOutCubic(tableProgress);
-      tableZ = lerp(TABLE_START_Z, TABLE_END_Z, tableEase);
-    }
-    table.position.set(0, 0, tableZ);
-    table.rotation.set(0, 0, 0);
-
-    if (clampedElapsed >= CANDLE_DROP_START) {
-      if (!candle.visible) {
-        candle.visible = true;
-      }
-      const candleProgress = clamp(
-        (clampedElapsed - CANDLE_DROP_START) / CANDLE_DROP_DURATION,
-        0,
-        1
-      );
-      const candleEase = easeOutCubic(candleProgress);
-      candle.position.y = lerp(CANDLE_START_Y, CANDLE_END_Y, candleEase);
-    } else {
-      candle.visible = false;
-      candle.position.set(0, CANDLE_START_Y, 0);
-    }
-
-    if (clampedElapsed < BACKGROUND_FADE_START) {
-      emitBackgroundOpacity(1);
-      emitEnvironmentProgress(0);
-    } else {
-      const fadeProgress = clamp(
-        (clampedElapsed - BACKGROUND_FADE_START) / BACKGROUND_FADE_DURATION,
-        0,
-        1
-      );
-      const eased = easeOutCubic(fadeProgress);
-      const backgroundOpacity = 1 - eased;
-      emitBackgroundOpacity(backgroundOpacity);
-      emitEnvironmentProgress(1 - backgroundOpacity);
-    }
+    targetsRef.current = {
+      cake,
+      table,
+      candle,
+      overlay: overlayStateRef.current,
+      environment: environmentStateRef.current,
+      ambientLight: ambientLightRef.current,
+      directionalLight: directionalLightRef.current,
+    };
 
-    const animationDone = clampedElapsed >= totalAnimationTime;
-    if (animationDone) {
-      cake.position.set(0, CAKE_END_Y, 0);
-      cake.rotation.set(0, 0, 0);
-      table.position.set(0, 0, TABLE_END_Z);
-      candle.position.set(0, CANDLE_END_Y, 0);
-      candle.visible = true;
-      emitBackgroundOpacity(0);
-      emitEnvironmentProgress(1);
-      hasCompletedRef.current = true;
-      if (!completionNotifiedRef.current) {
-        completionNotifiedRef.current = true;
-        onAnimationComplete?.();
-      }
+    // Only touch the scene when the playhead moved, so objects are left alone once the intro is over.
+    const elapsed = clamp(playback.now() - sceneStart, 0, timeline.duration);
+    if (elapsed !== appliedTimeRef.current) {
+      appliedTimeRef.current = elapsed;
+      seek(elapsed);
     }
   });
 
   return (
     <>
       <group ref={tableGroup}>
-        <Table />
-        <PictureFrame
-          frameId="frame2"
-          image="/frame2.jpg"
-          tablePosition={[0, 0.735, 3]}
-          tableRotation={[0, 5.6, 0]}
-          scale={0.75}
-          isActive={activeFrameId === "frame2"}
-          onToggle={onToggleFrame}
-          onDragChange={onDragChange}
-        />
-        <PictureFrame
-          frameId="frame3"
-          image="/frame3.jpg"
-          tablePosition={[0, 0.735, -3]}
-          tableRotation={[0, 4.0, 0]}
-          scale={0.75}
-          isActive={activeFrameId === "frame3"}
-          onToggle={onToggleFrame}
-          onDragChange={onDragChange}
-        />
-        <PictureFrame
-          frameId="frame4"
-          image="/frame4.jpg"
-          tablePosition={[-1.5, 0.735, 2.5]}
-          tableRotation={[0, 5.4, 0]}
-          scale={0.75}
-          isActive={activeFrameId === "frame4"}
-          onToggle={onToggleFrame}
-          onDragChange={onDragChange}
-        />
-        <PictureFrame
-          frameId="frame1"
-          image="/frame1.jpg"
-          tablePosition={[-1.5, 0.735, -2.5]}
-          tableRotation={[0, 4.2, 0]}
-          scale={0.75}
-          isActive={activeFrameId === "frame1"}
-          onToggle={onToggleFrame}
-          onDragChange={onDragChange}
-        />
-        <Bouquet 
-          bouquetId="bouquet1"
-          tablePosition={[-2, 0.735, -0.7]}
-          tableRotation={[1.2, Math.PI / 2, 0]}
-          scale={5}
-          isActive={activeBouquetId === "bouquet1"}
-          onToggle={onToggleBouquet}
-          onDragChange={onDragChange}
-        />
+        <Table onMeasure={setTableBounds} />
+        {focusRing && <FocusRing {...focusRing} />}
+        {frames.map((frame) => (
+          <PictureFrame
+            key={frame.id}
+            frameId={frame.id}
+            image={frame.image}
+            tablePosition={frame.tablePosition}
+            tableRotation={frame.tableRotation}
+            scale={frame.scale ?? 0.75}
+            isActive={activeFrameId === frame.id}
+            onToggle={onToggleFrame}
+            onDragChange={onDragChange}
+          />
+        ))}
+        {bouquets.map((bouquet) => (
+          <Bouquet
+            key={bouquet.id}
+            bouquetId={bouquet.id}
+            tablePosition={bouquet.tablePosition}
+            tableRotation={bouquet.tableRotation}
+            scale={bouquet.scale ?? 5}
+            isActive={activeBouquetId === bouquet.id}
+            onToggle={onToggleBouquet}
+            onDragChange={onDragChange}
+          />
+        ))}
         {cards.map((card) => {
-          if (card.id === "confetti") {
+          if (card.stack) {
              return (
                <CardStackPlaceholder
                  key={card.id}
-                 position={card.position}
-                 rotation={card.rotation}
-                 onClick={onShowOverlay}
+                 image={card.image}
+                 position={card.tablePosition}
+                 rotation={card.tableRotation}
+                 onClick={() => onShowOverlay(card.id)}
                />
              );
           }
@@ -395,20 +364,44 @@ function AnimatedScene({
               key={card.id}
               id={card.id}
               image={card.image}
-              tablePosition={card.position}
-              tableRotation={card.rotation}
+              tablePosition={card.tablePosition}
+              tableRotation={card.tableRotation}
               isActive={activeCardId === card.id}
               onToggle={onToggleCard}
+              onDragChange={onDragChange}
             />
           );
         })}
       </group>
       <group ref={cakeGroup}>
-        <Cake />
+        <Cake onMeasure={measureCake} />
       </group>
       <group ref={candleGroup}>
-        <Candle isLit={candleLit} scale={0.25} position={[0, 1.1, 0]} />
+        {candlePlacements.map((placement, index) => {
+          const candleProps = {
+            isLit: litCandles[index] ?? false,
+            breath: readBreath,
+            scale: placement.scale,
+            position: placement.position,
+            onClick: (event: ThreeEvent<MouseEvent>) => {
+              event.stopPropagation();
+              onCandleClick(index);
+            },
+          };
+          return placement.digit === undefined ? (
+            <Candle key={index} {...candleProps} />
+          ) : (
+            <NumberCandle key={index} digit={placement.digit} {...candleProps} />
+          );
+        })}
       </group>
+      <ambientLight ref={ambientLightRef} intensity={0.8} />
+      <directionalLight
+        ref={directionalLightRef}
+        intensity={0.5}
+        position={[2, 10, 0]}
+        color={[1, 0.9, 0.95]}
+      />
     </>
   );
 }
@@ -443,6 +436,7 @@ function ConfiguredOrbitControls({ enabled = true }: ConfiguredOrbitControlsProp
   return (
     <OrbitControls
       ref={controlsRef}
+      makeDefault
       enabled={enabled}
       enableDamping
       dampingFactor={0.05}
@@ -476,259 +470,668 @@ function EnvironmentBackgroundController({
 
 
 export default function App() {
-  const [hasStarted, setHasStarted] = useState(false);
+  const sceneState = useSceneManifest();
+
+  if (sceneState.status === "error") {
+    return (
+      <div className="App">
+        <SceneErrorOverlay
+          title="[ Could not load the scene ]"
+          issues={[{ path: "scene.json", message: sceneState.error.message }]}
+        />
+      </div>
+    );
+  }
+
+  if (sceneState.status === "invalid") {
+    return (
+      <div className="App">
+        <SceneErrorOverlay
+          title={`[ scene.json has ${sceneState.issues.length} problem${
+            sceneState.issues.length === 1 ? "" : "s"
+          } ]`}
+          issues={sceneState.issues}
+        />
+      </div>
+    );
+  }
+
+  if (sceneState.status === "loading") {
+    return <div className="App" />;
+  }
+
+  if (window.location.hash === "#generate") {
+    return <GreetingLinkGenerator manifest={sceneState.manifest} />;
+  }
+
+  return (
+    <Greeting
+      manifest={sceneState.manifest}
+      warnings={sceneState.warnings}
+      editing={window.location.hash === "#edit"}
+    />
+  );
+}
+
+/** Share of the lit candles one blow puts out. */
+const BLOW_STRENGTH = 0.6;
+
+const MIC_LABELS: Record<MicrophoneStatus, string> = {
+  off: "[ Use microphone ]",
+  requesting: "[ Waiting for microphone... ]",
+  listening: "[ Microphone on ]",
+  denied: "[ Microphone blocked ]",
+  suspended: "[ Microphone paused by the browser ]",
+  unsupported: "[ No microphone available ]",
+};
+
+/** What the bottom hint says while the candles are lit. */
+function blowHint(micListening: boolean, candleCount: number, isTouch: boolean) {
+  if (isTouch) {
+    return micListening
+      ? "[ Blow into the microphone or swipe up ]"
+      : "[ Swipe up or tap blow to make a wish ]";
+  }
+  if (micListening) {
+    return "[ Blow into the microphone or press space ]";
+  }
+  return candleCount > 1
+    ? "[ Press space or click to blow out the candles ]"
+    : "[ Press space to blow out the candle ]";
+}
+
+type GreetingProps = {
+  manifest: SceneManifest;
+  warnings: ReadonlyArray<ManifestIssue>;
+  /** Layout editor mode: skips the intro and puts transform handles on table objects. */
+  editing: boolean;
+};
+
+function Greeting({ manifest: baseManifest, warnings, editing }: GreetingProps) {
+  const [warningsDismissed, setWarningsDismissed] = useState(false);
+  const [layoutHistory, dispatchLayout] = useReducer(
+    layoutHistoryReducer,
+    baseManifest,
+    (initial) => createLayoutHistory(layoutFromManifest(initial))
+  );
+  const [selectedObjectKey, setSelectedObjectKey] = useState<string | null>(null);
+  const [gizmoMode, setGizmoMode] = useState<GizmoMode>("translate");
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const manifest = useMemo(
+    () => (editing ? applyLayout(baseManifest, layoutHistory.present) : baseManifest),
+    [baseManifest, editing, layoutHistory.present]
+  );
+
+  const experience = useExperienceMachine(countCandles(baseManifest.candles));
+  const { send, getState, bus } = experience;
+  const { phase, litCandles } = experience.state;
+  const hasStarted = phase !== "idle";
+  const hasAnimationCompleted = hasReached(phase, "candleLit");
+  const isCandleLit = isCandleLitIn(phase);
+  const fireworksActive = phase === "celebrating";
   const [backgroundOpacity, setBackgroundOpacity] = useState(1);
   const [environmentProgress, setEnvironmentProgress] = useState(0);
-  const [currentLineIndex, setCurrentLineIndex] = useState(0);
-  const [currentCharIndex, setCurrentCharIndex] = useState(0);
-  const [sceneStarted, setSceneStarted] = useState(false);
-
-  const [hasAnimationCompleted, setHasAnimationCompleted] = useState(false);
-  const [isCandleLit, setIsCandleLit] = useState(true);
-  const [fireworksActive, setFireworksActive] = useState(false);
+  const [playback] = useState(createPlaybackClock);
   const [activeCardId, setActiveCardId] = useState<string | null>(null);
   const [activeFrameId, setActiveFrameId] = useState<string | null>(null);
   const [activeBouquetId, setActiveBouquetId] = useState<string | null>(null);
   const [showCardOverlay, setShowCardOverlay] = useState(false);
   const [isDraggingFrame, setIsDraggingFrame] = useState(false);
-  const backgroundAudioRef = useRef<HTMLAudioElement | null>(null);
-  const frameAudioRef = useRef<HTMLAudioElement | null>(null);
-
-  useEffect(() => {
-    const audio = new Audio("/Paragraphs.mp3");
-    audio.loop = true;
-    audio.preload = "auto";
-    backgroundAudioRef.current = audio;
-    return () => {
-      audio.pause();
-      backgroundAudioRef.current = null;
-    };
-  }, []);
+  const [micEnabled, setMicEnabled] = useState(false);
+  const blowOutCandles = useCallback(() => {
+    send({
+      type: "extinguish",
+      candles: pickCandlesToBlow(getState().litCandles, BLOW_STRENGTH),
+    });
+  }, [getState, send]);
+  const input = useCreateInputRouter(manifest.input);
+  const audio = useCreateAudioManager();
+  const { status: micStatus, readBreath } = useBlowDetector({
+    enabled: micEnabled,
+    onBlowOut: () => input.dispatch("blow", "microphone"),
+    // Already running since the start click; a context of its own would start suspended on Safari.
+    context: audio?.context,
+  });
+  const isTouch = useCoarsePointer();
+  const canBlow = hasAnimationCompleted && isCandleLit && !editing;
+  useSwipeUp(() => input.dispatch("blow", "touch"), canBlow);
 
-  const playBackgroundMusic = useCallback(() => {
-    const audio = backgroundAudioRef.current;
+  const readPulse = useMemo(() => {
     if (!audio) {
-      return;
+      return undefined;
     }
-    if (!audio.paused) {
+    const musicPulse = createMusicPulse(audio);
+    return () => musicPulse.sample(performance.now() / 1000);
+  }, [audio]);
+  // Built on the manager's context, so they are let go along with it.
+  const [fireworkSounds, setFireworkSounds] = useState<FireworkSounds>();
+  useEffect(() => {
+    if (!audio) {
       return;
     }
-    void audio.play().catch(() => {
-      // ignore play errors (browser might block)
-    });
-  }, []);
+    const sounds = createFireworkSounds(audio);
+    setFireworkSounds(sounds);
+    return () => sounds.dispose();
+  }, [audio]);
+  const [surfaces] = useState(createSurfaceSet);
 
-  const typingComplete = currentLineIndex >= TYPED_LINES.length;
-  const typedLines = useMemo(() => {
-    if (TYPED_LINES.length === 0) {
-      return [""];
+  const playBackgroundMusic = useCallback(() => {
+    // Called from a key press or click, which is what lets the context start.
+    if (!audio) {
+      return;
     }
+    void audio.unlock();
+    void audio.play("music", manifest.music);
+  }, [audio, manifest.music]);
+
+  const introLines = useMemo(() => resolveIntroLines(manifest), [manifest]);
+  const charDelay = manifest.intro.charDelay ?? DEFAULT_CHAR_DELAY;
+  const postTypingDelay =
+    manifest.intro.postTypingDelay ?? DEFAULT_POST_TYPING_DELAY;
+  const introTimeline = useMemo(
+    () =>
+      compileTimeline(
+        mergeTimelines(DEFAULT_INTRO_TIMELINE, manifest.intro.timeline)
+      ),
+    [manifest.intro.timeline]
+  );
+  const schedule = useMemo(
+    () =>
+      createIntroSchedule({
+        lines: introLines,
+        charDelay: charDelay / 1000,
+        postTypingDelay: postTypingDelay / 1000,
+        sceneDuration: introTimeline.duration,
+      }),
+    [introLines, charDelay, postTypingDelay, introTimeline.duration]
+  );
 
-    return TYPED_LINES.map((line, index) => {
-      if (typingComplete || index < currentLineIndex) {
-        return line;
-      }
-      if (index === currentLineIndex) {
-        return line.slice(0, Math.min(currentCharIndex, line.length));
-      }
-      return "";
-    });
-  }, [currentCharIndex, currentLineIndex, typingComplete]);
-
-
+  // Coarse view of the intro clock; only updates when another character is typed.
+  const [typedTicks, setTypedTicks] = useState(0);
 
+  // The clock owns time; the machine only hears about the moments that matter.
   useEffect(() => {
     if (!hasStarted) {
-      setCurrentLineIndex(0);
-      setCurrentCharIndex(0);
-      setSceneStarted(false);
-      setIsCandleLit(true);
-      setFireworksActive(false);
-      setHasAnimationCompleted(false);
       return;
     }
-
-    if (typingComplete) {
-      if (!sceneStarted) {
-        const handle = window.setTimeout(() => {
-          setSceneStarted(true);
-        }, POST_TYPING_SCENE_DELAY);
-        return () => window.clearTimeout(handle);
+    let frame = 0;
+    const tick = () => {
+      const time = playback.now();
+      setTypedTicks(typedTicksAt(schedule, time));
+      if (time >= schedule.sceneStart) {
+        send({ type: "typingDone" });
       }
-      return;
-    }
-
-    const currentLine = TYPED_LINES[currentLineIndex] ?? "";
-    const handle = window.setTimeout(() => {
-      if (currentCharIndex < currentLine.length) {
-        setCurrentCharIndex((prev) => prev + 1);
-        return;
+      if (time >= schedule.end) {
+        send({ type: "introDone" });
       }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [hasStarted, playback, schedule, send]);
 
-      let nextLineIndex = currentLineIndex + 1;
-      while (
-        nextLineIndex < TYPED_LINES.length &&
-        TYPED_LINES[nextLineIndex].length === 0
-      ) {
-        nextLineIndex += 1;
-      }
+  useEffect(() => {
+    if (editing) {
+      playback.seek(schedule.end);
+      playback.play();
+      send({ type: "seek", phase: "candleLit" });
+    }
+  }, [editing, playback, schedule, send]);
+
+  // Anything open on the table belongs to the moment it was opened in.
+  useEffect(
+    () =>
+      bus.on("transition", ({ event }) => {
+        if (event.type !== "seek") {
+          return;
+        }
+        setActiveFrameId(null);
+        setActiveBouquetId(null);
+        setActiveCardId(null);
+        setShowCardOverlay(false);
+      }),
+    [bus]
+  );
 
-      setCurrentLineIndex(nextLineIndex);
-      setCurrentCharIndex(0);
-    }, TYPED_CHAR_DELAY);
+  // The microphone is only needed while there is a flame to blow at.
+  useEffect(
+    () =>
+      bus.on("transition", ({ to }) => {
+        if (!isCandleLitIn(to)) {
+          setMicEnabled(false);
+        }
+      }),
+    [bus]
+  );
 
-    return () => window.clearTimeout(handle);
-  }, [
-    hasStarted,
-    currentCharIndex,
-    currentLineIndex,
-    typingComplete,
-    sceneStarted,
-  ]);
+  // The cannons around the cake go off as the last candle goes out.
+  useEffect(
+    () =>
+      bus.on("transition", ({ from, to }) => {
+        if (from === "candleLit" && to === "celebrating") {
+          bus.emit("confetti", {});
+        }
+      }),
+    [bus]
+  );
 
+  const typedLines = useMemo(
+    () => typedLinesAt(schedule, typedTicks),
+    [schedule, typedTicks]
+  );
 
+  const startExperience = useCallback(() => {
+    if (send({ type: "start" })) {
+      playBackgroundMusic();
+      playback.play();
+    }
+  }, [playBackgroundMusic, playback, send]);
 
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.code !== "Space" && event.key !== " ") {
-        return;
-      }
-      event.preventDefault();
+  /** Jumps anywhere in the intro and moves the machine to the matching phase. */
+  const seekExperience = useCallback(
+    (time: number, celebrate = false) => {
       if (!hasStarted) {
         playBackgroundMusic();
-        setHasStarted(true);
-        return;
-      }
-      if (hasAnimationCompleted && isCandleLit) {
-        setIsCandleLit(false);
-        setFireworksActive(true);
+        playback.play();
       }
-    };
+      const target = celebrate ? Math.max(time, schedule.end) : time;
+      playback.seek(target);
+      const nextPhase: Exclude<ExperiencePhase, "idle"> = celebrate
+        ? "celebrating"
+        : target < schedule.sceneStart
+          ? "typing"
+          : target < schedule.end
+            ? "sceneIntro"
+            : "candleLit";
+      send({ type: "seek", phase: nextPhase });
+    },
+    [hasStarted, playBackgroundMusic, playback, schedule, send]
+  );
 
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [hasStarted, hasAnimationCompleted, isCandleLit, playBackgroundMusic]);
+  useEffect(() => input.on("start", startExperience), [input, startExperience]);
+  useEffect(() => input.on("blow", blowOutCandles), [input, blowOutCandles]);
 
   const handleCardToggle = useCallback((id: string) => {
+    if (editing) {
+      setSelectedObjectKey(tableObjectKey("card", id));
+      return;
+    }
     setActiveCardId((current) => (current === id ? null : id));
     setActiveFrameId(null);
     setActiveBouquetId(null);
-  }, []);
+  }, [editing]);
 
   const handleFrameToggle = useCallback((id: string) => {
+    if (editing) {
+      setSelectedObjectKey(tableObjectKey("frame", id));
+      return;
+    }
     setActiveFrameId((current) => (current === id ? null : id));
     setActiveCardId(null);
     setActiveBouquetId(null);
-  }, []);
+  }, [editing]);
 
   const handleBouquetToggle = useCallback((id: string) => {
+    if (editing) {
+      setSelectedObjectKey(tableObjectKey("bouquet", id));
+      return;
+    }
     setActiveBouquetId((current) => (current === id ? null : id));
     setActiveFrameId(null);
     setActiveCardId(null);
-  }, []);
+  }, [editing]);
 
-  useEffect(() => {
-    if (!frameAudioRef.current) {
-      frameAudioRef.current = new Audio();
-      frameAudioRef.current.loop = true;
+  const handleShowOverlay = useCallback((id: string) => {
+    if (editing) {
+      setSelectedObjectKey(tableObjectKey("card", id));
+      return;
     }
-    
-    const bgAudio = backgroundAudioRef.current;
-    const frameAudio = frameAudioRef.current;
+    setShowCardOverlay(true);
+  }, [editing]);
+
+  const tableObjects = useMemo(() => listTableObjects(manifest), [manifest]);
+  // Every object that can be picked up, in the order `inspectNext` walks through them.
+  const inspectables = useMemo(
+    () => tableObjects.filter((item) => item.kind !== "letters"),
+    [tableObjects]
+  );
+  const inspectedIndex = inspectables.findIndex(
+    ({ kind, id }) =>
+      id === { frame: activeFrameId, bouquet: activeBouquetId, card: activeCardId, letters: null }[kind]
+  );
+  const inspected = inspectables[inspectedIndex] ?? null;
 
-    if (activeFrameId) {
-      if (bgAudio) {
-        bgAudio.pause();
-      }
-      
-      const audioConfig = FRAME_AUDIO_MAPPING[activeFrameId];
-      if (audioConfig) {
-        frameAudio.src = audioConfig.src;
-        frameAudio.currentTime = audioConfig.startAt;
-        frameAudio.play().catch(() => {});
+  /** Picks up the object `step` places along from the inspected one, or the first or last. */
+  const inspectStep = useCallback(
+    (step: number) => {
+      const count = inspectables.length;
+      if (count === 0 || !hasAnimationCompleted || editing || showCardOverlay) {
+        return;
       }
-    } else {
-      frameAudio.pause();
-      frameAudio.currentTime = 0;
-      
-      if (bgAudio && hasStarted && !activeCardId) {
-         bgAudio.play().catch(() => {});
+      const index =
+        inspectedIndex === -1
+          ? (step > 0 ? 0 : count - 1)
+          : (inspectedIndex + step + count) % count;
+      const { kind, id } = inspectables[index];
+      setActiveFrameId(kind === "frame" ? id : null);
+      setActiveBouquetId(kind === "bouquet" ? id : null);
+      setActiveCardId(kind === "card" ? id : null);
+    },
+    [editing, hasAnimationCompleted, inspectables, inspectedIndex, showCardOverlay]
+  );
+
+  useEffect(() => input.on("inspectNext", () => inspectStep(1)), [input, inspectStep]);
+  // With something in hand, next and back move along the table; the letter overlay has its own.
+  useEffect(() => {
+    if (inspectedIndex === -1) {
+      return;
+    }
+    const stopNext = input.on("next", () => inspectStep(1));
+    const stopBack = input.on("back", () => inspectStep(-1));
+    return () => {
+      stopNext();
+      stopBack();
+    };
+  }, [input, inspectStep, inspectedIndex]);
+  useEffect(
+    () =>
+      input.on("closeInspection", () => {
+        if (showCardOverlay) {
+          return;
+        }
+        setActiveFrameId(null);
+        setActiveBouquetId(null);
+        setActiveCardId(null);
+      }),
+    [input, showCardOverlay]
+  );
+
+  /* ─── keyboard focus and announcements ─── */
+  const [announcer] = useState(createAnnouncer);
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  const focused = tableObjects.find((item) => item.key === focusedKey);
+
+  const activateTableObject = useCallback(
+    ({ kind, id }: TableObjectItem) => {
+      if (kind === "frame") {
+        handleFrameToggle(id);
+      } else if (kind === "bouquet") {
+        handleBouquetToggle(id);
+      } else if (kind === "card") {
+        handleCardToggle(id);
+      } else {
+        handleShowOverlay(id);
       }
+    },
+    [handleBouquetToggle, handleCardToggle, handleFrameToggle, handleShowOverlay]
+  );
+
+  useEffect(
+    () =>
+      bus.on("transition", ({ from, to, event }) => {
+        if (event.type === "start") {
+          announcer.announce(spokenIntro(introLines));
+        } else if (event.type === "introDone") {
+          const count = getState().litCandles.length;
+          announcer.announce(
+            `${count === 1 ? "The candle is" : `${count} candles are`} lit. Make a wish, then ${
+              isTouch ? "swipe up or tap Blow" : "press Space"
+            } to blow.`
+          );
+        } else if (event.type === "extinguish" && from === "candleLit") {
+          const left = getState().litCandles.filter(Boolean).length;
+          announcer.announce(
+            to === "celebrating"
+              ? `All candles are out. Happy birthday, ${manifest.recipient.name}!`
+              : `Candle blown out, ${left} still lit.`
+          );
+        }
+      }),
+    [announcer, bus, getState, introLines, isTouch, manifest.recipient.name]
+  );
+
+  const announcedRef = useRef<TableObjectItem | null>(null);
+  useEffect(() => {
+    const previous = announcedRef.current;
+    announcedRef.current = inspected;
+    if (inspected) {
+      const song = inspected.kind === "frame" ? manifest.frameAudio[inspected.id] : undefined;
+      announcer.announce(
+        `${inspected.name} picked up. Arrow keys move to the next object, Escape puts it back.${
+          song ? ` Playing ${clipTitle(song)}.` : ""
+        }`
+      );
+    } else if (previous) {
+      announcer.announce(`${previous.name} put back.`);
+    }
+  }, [announcer, inspected, manifest.frameAudio]);
+
+  useEffect(() => {
+    if (showCardOverlay) {
+      announcer.announce("Letters open. Arrow keys move between letters, Escape closes them.");
+    }
+  }, [announcer, showCardOverlay]);
+
+  const selectedPlacement = selectedObjectKey
+    ? layoutHistory.present[selectedObjectKey]
+    : undefined;
+
+  useEffect(() => {
+    if (hasStarted && audio) {
+      Object.values(manifest.frameAudio).forEach((clip) => void audio.load(clip.src));
+    }
+  }, [audio, hasStarted, manifest.frameAudio]);
+
+  // A frame's song crossfades over the background music while the frame is open.
+  useEffect(() => {
+    const clip = activeFrameId ? manifest.frameAudio[activeFrameId] : undefined;
+    if (!clip || !audio) {
+      return;
     }
-  }, [activeFrameId, hasStarted, activeCardId]);
+    void audio.play("frame", clip);
+    const releaseMusic = audio.duck("music", 0, clip.fadeIn);
+    return () => {
+      audio.stop("frame");
+      releaseMusic();
+    };
+  }, [activeFrameId, audio, manifest.frameAudio]);
+
 
-  const isScenePlaying = hasStarted && sceneStarted;
 
   return (
-    <div className="App">
-      <CardOverlay isOpen={showCardOverlay} onClose={() => setShowCardOverlay(false)} />
-      <div
-        className="background-overlay"
-        style={{ opacity: backgroundOpacity }}
-      >
-        <div className="typed-text">
-          {typedLines.map((line, index) => (
-            <span className="typed-line" key={`typed-line-${index}`}>
-              {line || "\u00a0"}
-            </span>
-          ))}
-        </div>
-      </div>
-      {!hasStarted && (
-        <div className="start-hint">[ Press Space to Start ]</div>
-      )}
-      {hasAnimationCompleted && isCandleLit && (
-        <div className="hint-overlay">[ Press space to blow out the candle ]</div>
-      )}
-      {/* Background dismiss is handled via onPointerMissed on the Canvas */}
-      <Canvas
-        gl={{ alpha: true }}
-        style={{ background: "transparent" }}
-        onCreated={({ gl }) => {
-          gl.setClearColor("#000000", 0);
-        }}
-        onPointerMissed={() => {
-          if (activeFrameId) {
-            handleFrameToggle(activeFrameId);
-          }
-          if (activeBouquetId) {
-            handleBouquetToggle(activeBouquetId);
-          }
-        }}
-      >
-        <Suspense fallback={null}>
-          <AnimatedScene
-            isPlaying={isScenePlaying}
-            candleLit={isCandleLit}
-            onBackgroundFadeChange={setBackgroundOpacity}
-            onEnvironmentProgressChange={setEnvironmentProgress}
-            onAnimationComplete={() => setHasAnimationCompleted(true)}
-            cards={BIRTHDAY_CARDS}
-            activeCardId={activeCardId}
-            onToggleCard={handleCardToggle}
-            onShowOverlay={() => setShowCardOverlay(true)}
-            activeFrameId={activeFrameId}
-            onToggleFrame={handleFrameToggle}
-            activeBouquetId={activeBouquetId}
-            onToggleBouquet={handleBouquetToggle}
-            onDragChange={setIsDraggingFrame}
-          />
-          <ambientLight intensity={(1 - environmentProgress) * 0.8} />
-          <directionalLight intensity={0.5} position={[2, 10, 0]} color={[1, 0.9, 0.95]}/>
-          <Environment
-            files={["/shanghai_bund_4k.hdr"]}
-            backgroundRotation={[0, 3.3, 0]}
-            environmentRotation={[0, 3.3, 0]}
-            background
-            environmentIntensity={0.1 * environmentProgress}
-            backgroundIntensity={0.05 * environmentProgress}
-          />
-          <EnvironmentBackgroundController intensity={0.05 * environmentProgress} />
-          <Fireworks isActive={fireworksActive} origin={[-10, 6, 0]} />
-          <FallingSparkles isActive={fireworksActive} />
-          <ConfiguredOrbitControls enabled={!isDraggingFrame && !activeFrameId && !activeBouquetId} />
-        </Suspense>
-      </Canvas>
-    </div>
+    <ExperienceContext value={experience}>
+      <AudioManagerContext value={audio}>
+        <InputContext value={input}>
+          <div className="App" style={themeStyle(manifest.theme)}>
+            {warnings.length > 0 && !warningsDismissed && (
+              <SceneErrorOverlay
+                title="[ scene.json warnings ]"
+                issues={warnings}
+                onDismiss={() => setWarningsDismissed(true)}
+              />
+            )}
+            {import.meta.env.DEV && !editing && (
+              <TimelineScrubber
+                playback={playback}
+                schedule={schedule}
+                onSeek={seekExperience}
+              />
+            )}
+            {editing && (
+              <EditorPanel
+                manifest={baseManifest}
+                history={layoutHistory}
+                dispatch={dispatchLayout}
+                selectedKey={selectedObjectKey}
+                onSelect={setSelectedObjectKey}
+                mode={gizmoMode}
+                onModeChange={setGizmoMode}
+                snap={snapEnabled}
+                onSnapChange={setSnapEnabled}
+              />
+            )}
+            <CardOverlay
+              isOpen={showCardOverlay}
+              letters={manifest.letters}
+              onClose={() => setShowCardOverlay(false)}
+            />
+            <div
+              className="background-overlay"
+              style={{ opacity: backgroundOpacity }}
+            >
+              {/* The live region reads the intro once as a whole; the typing is only for the eyes. */}
+              <div className="typed-text" aria-hidden="true">
+                {typedLines.map((line, index) => (
+                  <span className="typed-line" key={`typed-line-${index}`}>
+                    {line || "\u00a0"}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <LiveRegion announcer={announcer} />
+            {hasAnimationCompleted && !editing && (
+              <SceneNavigator
+                items={tableObjects}
+                activeKey={inspected?.key ?? null}
+                onFocusChange={setFocusedKey}
+                onActivate={activateTableObject}
+              />
+            )}
+            {!hasStarted && (
+              // The whole screen is the start button, so a tap anywhere begins on a phone.
+              <button
+                type="button"
+                className="start-hint"
+                onClick={() => input.dispatch("start", "pointer")}
+              >
+                {isTouch ? "[ Tap to Start ]" : "[ Press Space to Start ]"}
+              </button>
+            )}
+            {hasAnimationCompleted && isCandleLit && (
+              <div className="hint-overlay">
+                {blowHint(micStatus === "listening", litCandles.length, isTouch)}
+              </div>
+            )}
+            {canBlow && isTouch && (
+              <button
+                type="button"
+                className="blow-button"
+                onClick={() => input.dispatch("blow", "pointer")}
+              >
+                [ Blow ]
+              </button>
+            )}
+            {!editing && audio && <SoundControl manager={audio} wantsSound={hasStarted} />}
+          {hasStarted && isCandleLit && !editing && (
+              <button
+                type="button"
+                className="mic-toggle"
+                onClick={() => setMicEnabled((enabled) => !enabled)}
+              >
+                {MIC_LABELS[micStatus]}
+              </button>
+            )}
+            {/* Background dismiss is handled via onPointerMissed on the Canvas */}
+            <SceneErrorBoundary>
+              <Canvas
+                gl={{ alpha: true }}
+                style={{ background: "transparent" }}
+                onCreated={({ gl }) => {
+                  gl.setClearColor("#000000", 0);
+                }}
+                onPointerMissed={(event) => {
+                  if (activeFrameId) {
+                    handleFrameToggle(activeFrameId);
+                  }
+                  if (activeBouquetId) {
+                    handleBouquetToggle(activeBouquetId);
+                  }
+                  if (activeCardId) {
+                    handleCardToggle(activeCardId);
+                  }
+                  // A click that only closed something should not also launch a firework.
+                  if (!activeFrameId && !activeBouquetId && !activeCardId && !editing) {
+                    bus.emit("skyClick", { clientX: event.clientX, clientY: event.clientY });
+                  }
+                }}
+              >
+                <Suspense fallback={null}>
+                  <AnimatedScene
+                    playback={playback}
+                    sceneStart={schedule.sceneStart}
+                    timeline={introTimeline}
+                    candles={manifest.candles}
+                    litCandles={litCandles}
+                    onCandleClick={(index) => send({ type: "extinguish", candles: [index] })}
+                    readBreath={readBreath}
+                    onBackgroundFadeChange={setBackgroundOpacity}
+                    onEnvironmentProgressChange={setEnvironmentProgress}
+                    frames={manifest.frames}
+                    bouquets={manifest.bouquets}
+                    cards={manifest.cards}
+                    activeCardId={activeCardId}
+                    onToggleCard={handleCardToggle}
+                    onShowOverlay={handleShowOverlay}
+                    activeFrameId={activeFrameId}
+                    onToggleFrame={handleFrameToggle}
+                    activeBouquetId={activeBouquetId}
+                    onToggleBouquet={handleBouquetToggle}
+                    onDragChange={setIsDraggingFrame}
+                    surfaces={surfaces}
+                    focusRing={
+                      focused && focused.key !== inspected?.key
+                        ? {
+                            position: focused.position,
+                            radius: focused.radius,
+                            color: THEMES[manifest.theme ?? DEFAULT_THEME].accent,
+                          }
+                        : null
+                    }
+                  />
+                  <Environment
+                    files={["/shanghai_bund_4k.hdr"]}
+                    backgroundRotation={[0, 3.3, 0]}
+                    environmentRotation={[0, 3.3, 0]}
+                    background
+                    environmentIntensity={0.1 * environmentProgress}
+                    backgroundIntensity={0.05 * environmentProgress}
+                  />
+                  <EnvironmentBackgroundController intensity={0.05 * environmentProgress} />
+                  <Fireworks
+                    isActive={fireworksActive}
+                    center={FIREWORKS_CENTER}
+                    pulse={readPulse}
+                    shellTypes={manifest.fireworks?.shells}
+                    text={manifest.fireworks?.text ?? manifest.recipient.name}
+                    show={manifest.fireworks?.show}
+                    sounds={fireworkSounds}
+                  />
+                  <FallingSparkles
+                    isActive={fireworksActive}
+                    surfaces={surfaces}
+                    mode={manifest.ambient ?? THEMES[manifest.theme ?? DEFAULT_THEME].ambient}
+                  />
+                  <ConfettiCannons config={manifest.confetti} surfaces={surfaces} />
+                  {editing && selectedObjectKey && selectedPlacement && (
+                    <LayoutGizmo
+                      placement={selectedPlacement}
+                      mode={gizmoMode}
+                      snap={snapEnabled}
+                      onPreview={(placement) =>
+                        dispatchLayout({ type: "preview", key: selectedObjectKey, placement })
+                      }
+                      onCommit={() => dispatchLayout({ type: "commit" })}
+                    />
+                  )}
+                  <ConfiguredOrbitControls
+                    enabled={!isDraggingFrame && !activeFrameId && !activeBouquetId && !activeCardId}
+                  />
+                </Suspense>
+              </Canvas>
+            </SceneErrorBoundary>
+          </div>
+        </InputContext>
+      </AudioManagerContext>
+    </ExperienceContext>
   );
 }
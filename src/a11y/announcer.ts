@@ -0,0 +1,34 @@
+/**
+ * What the ARIA live region says. Anything can announce; the region reads
+ * the latest message. Repeating a message still gets it read again.
+ */
+export type Announcer = {
+  announce: (message: string) => void;
+  message: () => string;
+  /** Returns an unsubscribe function, for `useSyncExternalStore`. */
+  subscribe: (listener: () => void) => () => void;
+};
+
+export function createAnnouncer(): Announcer {
+  const listeners = new Set<() => void>();
+  let current = "";
+  let repeat = false;
+
+  return {
+    announce(message) {
+      // Screen readers skip a region whose text did not change, so a repeat differs by a space.
+      repeat = message === current.trimEnd() ? !repeat : false;
+      current = repeat ? `${message} ` : message;
+      listeners.forEach((listener) => listener());
+    },
+    message() {
+      return current;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import type { AudioClipConfig, SceneManifest, Vec3 } from "../scene/manifest";
+import { tableObjectKey } from "../editor/layout";
+
+/** A table object reachable from the keyboard; `letters` is a card stack that opens the letter overlay. */
+export type TableObjectItem = {
+  key: string;
+  kind: "frame" | "bouquet" | "card" | "letters";
+  id: string;
+  name: string;
+  /** The name plus anything worth knowing before opening it. */
+  label: string;
+  position: Vec3;
+  /** Radius of the focus ring drawn around it on the table. */
+  radius: number;
+};
+
+/** A song's title, or its file name when none is given. */
+export function clipTitle(clip: AudioClipConfig) {
+  if (clip.title) {
+    return clip.title;
+  }
+  const file = clip.src.split("/").pop() ?? clip.src;
+  return decodeURIComponent(file).replace(/\.[^.]+$/, "");
+}
+
+/** Every interactive object on the table, in keyboard order. */
+export function listTableObjects(manifest: SceneManifest): TableObjectItem[] {
+  const numbered = (name: string, index: number, count: number) =>
+    count > 1 ? `${name} ${index + 1}` : name;
+
+  return [
+    ...manifest.frames.map((frame, index) => {
+      const song = manifest.frameAudio[frame.id];
+      const name = numbered("Photo", index, manifest.frames.length);
+      return {
+        key: tableObjectKey("frame", frame.id),
+        kind: "frame" as const,
+        id: frame.id,
+        name,
+        label: song ? `${name}, plays ${clipTitle(song)}` : name,
+        position: frame.tablePosition,
+        radius: 0.35,
+      };
+    }),
+    ...manifest.bouquets.map((bouquet, index) => {
+      const name = numbered("Bouquet", index, manifest.bouquets.length);
+      return {
+        key: tableObjectKey("bouquet", bouquet.id),
+        kind: "bouquet" as const,
+        id: bouquet.id,
+        name,
+        label: name,
+        position: bouquet.tablePosition,
+        radius: 0.45,
+      };
+    }),
+    ...manifest.cards.map((card, index) => {
+      const name = card.stack
+        ? "Stack of letters"
+        : numbered("Birthday card", index, manifest.cards.length);
+      return {
+        key: tableObjectKey("card", card.id),
+        kind: card.stack ? ("letters" as const) : ("card" as const),
+        id: card.id,
+        name,
+        label: name,
+        position: card.tablePosition,
+        radius: 0.65,
+      };
+    }),
+  ];
+}
+
+/** The intro lines as one readable passage, without the prompt marks and pauses. */
+export function spokenIntro(lines: ReadonlyArray<string>) {
+  return lines
+    .map((line) => line.replace(/^>\s*/, "").trim())
+    .filter((line) => line.replace(/\./g, "") !== "")
+    .join(" ");
+}
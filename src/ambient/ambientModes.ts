@@ -0,0 +1,225 @@
+import {
+  BufferGeometry,
+  Euler,
+  IcosahedronGeometry,
+  PlaneGeometry,
+  Shape,
+  ShapeGeometry,
+  Vector2,
+  Vector3,
+} from "three";
+import { SETTLE_LIFT, settleDuration } from "./surfaces";
+
+/**
+ * What drifts down over the scene during the celebration. `sparkles` are
+ * the original additive points; the rest are instanced meshes, each with
+ * its own shape, palette and way of falling.
+ */
+export type AmbientModeName = "sparkles" | "confetti" | "petals" | "hearts" | "snow";
+
+export type AmbientShape = "confetti" | "petal" | "heart" | "flake";
+
+export type AmbientParticle = {
+  position: Vector3;
+  rotation: Euler;
+  /** Radians per second around each axis. */
+  spin: Vector3;
+  /** Random 0-2π offset so particles do not sway in step. */
+  phase: number;
+  /** Level direction a petal glides back and forth along. */
+  heading: number;
+  /** Fall speed in units per second. */
+  speed: number;
+  scale: number;
+  color: number;
+  /** Seconds left resting on a surface; 0 while falling. */
+  settled: number;
+};
+
+export type AmbientMode = {
+  count: number;
+  shape: AmbientShape;
+  colors: string[];
+  /** Size range in scene units. */
+  size: [number, number];
+  fallSpeed: [number, number];
+  /** Advances one particle; see `MOTIONS`. */
+  move: (particle: AmbientParticle, time: number, delta: number) => void;
+  /** Turned toward the camera every frame, for shapes that only read face on. */
+  faceCamera?: boolean;
+  /** Unlit, for things that glow rather than reflect. */
+  unlit?: boolean;
+  opacity: number;
+};
+
+/* ─── motion models ─── */
+const MOTIONS = {
+  // Paper confetti: drifts side to side while spinning end over end.
+  flutter(particle: AmbientParticle, time: number, delta: number) {
+    const { position, rotation, spin, phase } = particle;
+    position.y -= particle.speed * delta;
+    position.x += Math.sin(time * 1.7 + phase) * 0.4 * delta;
+    position.z += Math.cos(time * 1.3 + phase) * 0.4 * delta;
+    rotation.x += spin.x * delta;
+    rotation.y += spin.y * delta;
+    rotation.z += spin.z * delta;
+  },
+  // Petals glide like falling leaves: they swing back and forth, tip into
+  // each swing, and sink fastest at the ends of it.
+  tumble(particle: AmbientParticle, time: number, delta: number) {
+    const { position, rotation, spin, phase, heading } = particle;
+    const swing = Math.sin(time * 1.2 + phase);
+    const sweep = Math.cos(time * 1.2 + phase) * 0.8 * delta;
+    position.x += Math.cos(heading) * sweep;
+    position.z += Math.sin(heading) * sweep;
+    position.y -= particle.speed * (0.5 + swing * swing) * delta;
+    rotation.x = Math.PI / 2 + swing * 0.5;
+    rotation.z = swing * 0.9;
+    rotation.y += spin.y * 0.2 * delta;
+  },
+  // Hearts float down slowly, rocking gently.
+  float(particle: AmbientParticle, time: number, delta: number) {
+    const { position, rotation, phase } = particle;
+    position.y -= particle.speed * delta;
+    position.x += Math.sin(time * 0.8 + phase) * 0.2 * delta;
+    rotation.z = Math.sin(time * 2 + phase) * 0.35;
+  },
+  // Snow wanders on a slow breeze.
+  drift(particle: AmbientParticle, time: number, delta: number) {
+    const { position, phase } = particle;
+    position.y -= particle.speed * delta;
+    const breeze = Math.sin(time * 0.5 + phase) + Math.sin(time * 1.3 + phase * 2) * 0.5;
+    position.x += breeze * 0.25 * delta;
+    position.z += Math.cos(time * 0.4 + phase) * 0.25 * delta;
+  },
+};
+
+export const AMBIENT_MODES: Record<Exclude<AmbientModeName, "sparkles">, AmbientMode> = {
+  confetti: {
+    count: 300,
+    shape: "confetti",
+    colors: ["#ff4f8b", "#ffd166", "#06d6a0", "#4cc9f0", "#b388ff", "#ffffff"],
+    size: [0.05, 0.08],
+    fallSpeed: [0.6, 1.2],
+    move: MOTIONS.flutter,
+    opacity: 0.95,
+  },
+  petals: {
+    count: 160,
+    shape: "petal",
+    // The bouquet's roses, from deep red to blush.
+    colors: ["#9e1030", "#c2185b", "#e75480", "#f4a6c0"],
+    size: [0.08, 0.12],
+    fallSpeed: [0.4, 0.8],
+    move: MOTIONS.tumble,
+    opacity: 0.95,
+  },
+  hearts: {
+    count: 140,
+    shape: "heart",
+    colors: ["#ff4d6d", "#ff8fa3", "#ffb3c1", "#c9184a"],
+    size: [0.06, 0.1],
+    fallSpeed: [0.5, 0.9],
+    move: MOTIONS.float,
+    faceCamera: true,
+    opacity: 0.9,
+  },
+  snow: {
+    count: 500,
+    shape: "flake",
+    colors: ["#ffffff", "#eef4ff"],
+    size: [0.02, 0.04],
+    fallSpeed: [0.3, 0.7],
+    move: MOTIONS.drift,
+    unlit: true,
+    opacity: 0.8,
+  },
+};
+
+export const AMBIENT_MODE_NAMES = [
+  "sparkles",
+  ...Object.keys(AMBIENT_MODES),
+] as AmbientModeName[];
+
+export const isAmbientModeName = (value: unknown): value is AmbientModeName =>
+  typeof value === "string" && (AMBIENT_MODE_NAMES as string[]).includes(value);
+
+/* ─── the volume particles fall through ─── */
+export const AMBIENT_AREA = 20;   // width and depth
+export const AMBIENT_TOP_Y = 12;  // spawn height
+export const AMBIENT_BOTTOM_Y = -2; // despawn height
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+
+export function createAmbientParticle(): AmbientParticle {
+  return {
+    position: new Vector3(),
+    rotation: new Euler(),
+    spin: new Vector3(),
+    phase: 0,
+    heading: 0,
+    speed: 0,
+    scale: 1,
+    color: 0,
+    settled: 0,
+  };
+}
+
+/** Starts a particle above the area, or anywhere in it when the mode first appears. */
+export function spawnAmbientParticle(
+  particle: AmbientParticle,
+  mode: AmbientMode,
+  anywhere: boolean
+) {
+  particle.position.set(
+    (Math.random() - 0.5) * AMBIENT_AREA,
+    anywhere
+      ? AMBIENT_BOTTOM_Y + Math.random() * (AMBIENT_TOP_Y - AMBIENT_BOTTOM_Y)
+      : AMBIENT_TOP_Y + Math.random() * 2,
+    (Math.random() - 0.5) * AMBIENT_AREA
+  );
+  const turn = () => Math.random() * Math.PI * 2;
+  const spin = () => (Math.random() - 0.5) * 8;
+  particle.rotation.set(turn(), turn(), turn());
+  particle.spin.set(spin(), spin(), spin());
+  particle.phase = Math.random() * Math.PI * 2;
+  particle.heading = Math.random() * Math.PI * 2;
+  particle.speed = between(mode.fallSpeed);
+  particle.scale = between(mode.size);
+  particle.color = Math.floor(Math.random() * mode.colors.length);
+  particle.settled = 0;
+}
+
+/** Lays a particle flat on a surface whose top is at `floor`. */
+export function settleAmbientParticle(particle: AmbientParticle, floor: number) {
+  particle.position.y = floor + SETTLE_LIFT;
+  particle.rotation.set(-Math.PI / 2, 0, particle.rotation.z);
+  particle.settled = settleDuration();
+}
+
+/** Unit-sized geometry for a shape; instances scale it to the mode's size. */
+export function createAmbientGeometry(shape: AmbientShape): BufferGeometry {
+  switch (shape) {
+    case "confetti":
+      return new PlaneGeometry(1, 0.55);
+    case "petal": {
+      const petal = new Shape();
+      petal.moveTo(0, -0.5);
+      petal.bezierCurveTo(0.45, -0.3, 0.4, 0.35, 0, 0.5);
+      petal.bezierCurveTo(-0.4, 0.35, -0.45, -0.3, 0, -0.5);
+      return new ShapeGeometry(petal, 8);
+    }
+    case "heart": {
+      const points = Array.from({ length: 48 }, (_, index) => {
+        const t = (index / 48) * Math.PI * 2;
+        return new Vector2(
+          (16 * Math.sin(t) ** 3) / 32,
+          (13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)) / 32
+        );
+      });
+      return new ShapeGeometry(new Shape(points));
+    }
+    case "flake":
+      return new IcosahedronGeometry(0.5, 1);
+  }
+}
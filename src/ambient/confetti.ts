@@ -0,0 +1,174 @@
+import { Vector3 } from "three";
+import type { Vec3 } from "../scene/manifest";
+import { AMBIENT_BOTTOM_Y, AMBIENT_MODES } from "./ambientModes";
+import { SETTLE_LIFT, settleDuration } from "./surfaces";
+import type { SurfaceSet } from "./surfaces";
+
+export type ConfettiCannon = {
+  /** Muzzle position in world space. */
+  position: Vec3;
+  /** Where it points; defaults to up and slightly away from the cake. */
+  direction?: Vec3;
+};
+
+export type ConfettiConfig = {
+  cannons?: ConfettiCannon[];
+  colors?: string[];
+  /** Pieces per burst, shared between the cannons. */
+  pieces?: number;
+};
+
+/** Four cannons on the table around the cake. */
+export const DEFAULT_CONFETTI_CANNONS: ConfettiCannon[] = [
+  { position: [0.75, 0.76, 0.45] },
+  { position: [-0.75, 0.76, 0.45] },
+  { position: [0.75, 0.76, -0.45] },
+  { position: [-0.75, 0.76, -0.45] },
+];
+
+export const DEFAULT_CONFETTI_COLORS = AMBIENT_MODES.confetti.colors;
+
+/* ─── tuning knobs ─── */
+export const MAX_CONFETTI = 3000;     // pool size; a new burst recycles the oldest pieces
+export const DEFAULT_CONFETTI_PIECES = 2400;
+const MUZZLE_SPEED: [number, number] = [4, 7];
+const SPREAD = 0.35;                  // cone width around the cannon's direction
+const OUTWARD_TILT = 0.25;            // how far default cannons lean away from the cake
+const GRAVITY = 3;                    // weaker than the real thing; paper falls slowly
+const DRAG = 3;                       // per second; terminal fall speed is GRAVITY / DRAG
+const FLUTTER = 1.5;                  // side-to-side push while falling
+const SPIN = 14;                      // radians per second, at most
+const SIZE: [number, number] = [0.025, 0.045];
+const REST_BONUS = 20;                // seconds cannon confetti outlasts ambient particles on the table
+
+// Values of `ConfettiPool.state`.
+export const UNUSED = 0;
+const FLYING = 1;
+const RESTING = 2;
+
+/** Flat per-piece arrays, so thousands of pieces cost no allocations per frame. */
+export type ConfettiPool = {
+  position: Float32Array;
+  velocity: Float32Array;
+  rotation: Float32Array;
+  spin: Float32Array;
+  size: Float32Array;
+  /** Seconds left on a surface. */
+  settled: Float32Array;
+  /** `UNUSED`, flying or resting. */
+  state: Uint8Array;
+  /** Index into the burst's colors. */
+  color: Uint8Array;
+  /** Next piece a burst takes. */
+  next: number;
+  /** Pieces flying or resting after the last step. */
+  alive: number;
+};
+
+export function createConfettiPool(count = MAX_CONFETTI): ConfettiPool {
+  return {
+    position: new Float32Array(count * 3),
+    velocity: new Float32Array(count * 3),
+    rotation: new Float32Array(count * 3),
+    spin: new Float32Array(count * 3),
+    size: new Float32Array(count),
+    settled: new Float32Array(count),
+    state: new Uint8Array(count),
+    color: new Uint8Array(count),
+    next: 0,
+    alive: 0,
+  };
+}
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+
+const aim = new Vector3();
+const jitter = new Vector3();
+
+/** Fires `pieces` pieces split between `cannons`, each taking a random one of `colorCount` colors. */
+export function fireConfetti(
+  pool: ConfettiPool,
+  cannons: ReadonlyArray<ConfettiCannon>,
+  pieces: number,
+  colorCount: number
+) {
+  const count = pool.state.length;
+  const perCannon = Math.floor(Math.min(pieces, count) / Math.max(cannons.length, 1));
+  for (const cannon of cannons) {
+    const [x, y, z] = cannon.position;
+    if (cannon.direction) {
+      aim.fromArray(cannon.direction).normalize();
+    } else {
+      aim.set(x, 0, z).normalize().multiplyScalar(OUTWARD_TILT);
+      aim.y = 1;
+      aim.normalize();
+    }
+    for (let piece = 0; piece < perCannon; piece++) {
+      const index = pool.next;
+      pool.next = (pool.next + 1) % count;
+      const i3 = index * 3;
+
+      jitter.randomDirection().multiplyScalar(SPREAD * Math.random()).add(aim).normalize();
+      jitter.multiplyScalar(between(MUZZLE_SPEED));
+      pool.velocity[i3] = jitter.x;
+      pool.velocity[i3 + 1] = jitter.y;
+      pool.velocity[i3 + 2] = jitter.z;
+      pool.position[i3] = x + (Math.random() - 0.5) * 0.04;
+      pool.position[i3 + 1] = y;
+      pool.position[i3 + 2] = z + (Math.random() - 0.5) * 0.04;
+      for (let axis = 0; axis < 3; axis++) {
+        pool.rotation[i3 + axis] = Math.random() * Math.PI * 2;
+        pool.spin[i3 + axis] = (Math.random() - 0.5) * 2 * SPIN;
+      }
+      pool.size[index] = between(SIZE);
+      pool.settled[index] = 0;
+      pool.state[index] = FLYING;
+      pool.color[index] = Math.floor(Math.random() * colorCount);
+    }
+  }
+}
+
+/** Moves every piece; pieces that reach a surface lie flat and rest there, the rest fall out of view. */
+export function stepConfetti(pool: ConfettiPool, time: number, delta: number, surfaces?: SurfaceSet) {
+  const { position, velocity, rotation, spin, settled, state } = pool;
+  const keep = Math.exp(-DRAG * delta);
+  let alive = 0;
+
+  for (let index = 0; index < state.length; index++) {
+    if (state[index] === UNUSED) {
+      continue;
+    }
+    alive++;
+    if (state[index] === RESTING) {
+      settled[index] -= delta;
+      if (settled[index] <= 0) {
+        state[index] = UNUSED;
+      }
+      continue;
+    }
+
+    const i3 = index * 3;
+    const fromY = position[i3 + 1];
+    velocity[i3] = (velocity[i3] + Math.sin(time * 7 + index) * FLUTTER * delta) * keep;
+    velocity[i3 + 1] = (velocity[i3 + 1] - GRAVITY * delta) * keep;
+    velocity[i3 + 2] = (velocity[i3 + 2] + Math.cos(time * 5 + index) * FLUTTER * delta) * keep;
+    position[i3] += velocity[i3] * delta;
+    position[i3 + 1] += velocity[i3 + 1] * delta;
+    position[i3 + 2] += velocity[i3 + 2] * delta;
+    rotation[i3] += spin[i3] * delta;
+    rotation[i3 + 1] += spin[i3 + 1] * delta;
+    rotation[i3 + 2] += spin[i3 + 2] * delta;
+
+    const floor = surfaces?.floorAt(position[i3], position[i3 + 2], fromY) ?? -Infinity;
+    if (velocity[i3 + 1] < 0 && position[i3 + 1] <= floor + SETTLE_LIFT) {
+      position[i3 + 1] = floor + SETTLE_LIFT;
+      rotation[i3] = -Math.PI / 2;
+      rotation[i3 + 1] = 0;
+      settled[index] = settleDuration() + REST_BONUS;
+      state[index] = RESTING;
+    } else if (position[i3 + 1] < AMBIENT_BOTTOM_Y) {
+      state[index] = UNUSED;
+    }
+  }
+  pool.alive = alive;
+}
@@ -0,0 +1,66 @@
+import { Box3 } from "three";
+import type { Object3D } from "three";
+
+/**
+ * Boxes that falling particles land on instead of passing through, such as
+ * the table top and the cake. Each one is a model's bounds tracked on the
+ * group that moves it, so the boxes follow the intro animation.
+ */
+export type SurfaceSet = {
+  /** Tracks `bounds`, given in `object`'s own space, under `key`; returns an untrack function. */
+  track: (key: string, object: Object3D, bounds: Box3) => () => void;
+  /** Refreshes the world-space boxes; call once a frame before `floorAt`. */
+  update: () => void;
+  /** Top of the highest surface under (x, z) that is not above `y`, or -Infinity. */
+  floorAt: (x: number, z: number, y: number) => number;
+};
+
+/* ─── settling ─── */
+const SETTLE_TIME: [number, number] = [6, 14]; // seconds a particle rests before fading
+const SETTLE_FADE = 1.5;                       // seconds it takes to fade away
+export const SETTLE_LIFT = 0.005;              // rests this far above the surface to avoid z-fighting
+
+/** How long a particle that just landed stays before it is respawned. */
+export const settleDuration = () =>
+  SETTLE_FADE + SETTLE_TIME[0] + Math.random() * (SETTLE_TIME[1] - SETTLE_TIME[0]);
+
+/** 1 while a particle rests, falling to 0 over its last moments on the surface. */
+export const settleFade = (remaining: number) => Math.min(1, Math.max(0, remaining / SETTLE_FADE));
+
+export function createSurfaceSet(): SurfaceSet {
+  const tracked = new Map<string, { object: Object3D; bounds: Box3; world: Box3 }>();
+
+  return {
+    track(key, object, bounds) {
+      const entry = { object, bounds: bounds.clone(), world: new Box3() };
+      tracked.set(key, entry);
+      return () => {
+        if (tracked.get(key) === entry) {
+          tracked.delete(key);
+        }
+      };
+    },
+    update() {
+      for (const entry of tracked.values()) {
+        entry.world.copy(entry.bounds).applyMatrix4(entry.object.matrixWorld);
+      }
+    },
+    floorAt(x, z, y) {
+      let floor = -Infinity;
+      for (const { world } of tracked.values()) {
+        const top = world.max.y;
+        if (
+          top <= y &&
+          top > floor &&
+          x >= world.min.x &&
+          x <= world.max.x &&
+          z >= world.min.z &&
+          z <= world.max.z
+        ) {
+          floor = top;
+        }
+      }
+      return floor;
+    },
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * Everything audible goes through one AudioContext: named channels feed a
+ * master gain, and every volume change is an equal-power fade so nothing
+ * starts or stops with a click.
+ */
+import type { BeatMap } from "./beatMap";
+
+export type ChannelName = "music" | "frame" | "sfx";
+
+export const CHANNELS: ChannelName[] = ["music", "frame", "sfx"];
+
+export type AudioClip = {
+  src: string;
+  /** Seconds into the file where playback starts. */
+  startAt?: number;
+  /** Loop region in seconds; defaults to the whole file. */
+  loopStart?: number;
+  loopEnd?: number;
+  /** Plays once instead of looping. */
+  once?: boolean;
+  /** Fade durations in seconds. */
+  fadeIn?: number;
+  fadeOut?: number;
+  volume?: number;
+  /** Beats for music-driven effects; without one they listen to the audio instead. */
+  beats?: BeatMap;
+};
+
+export type AudioStatus = {
+  /** False until the browser lets the context run, i.e. after a user gesture. */
+  unlocked: boolean;
+  muted: boolean;
+  volume: number;
+  /** Files that could not be loaded or decoded. */
+  failed: string[];
+};
+
+export type AudioManager = {
+  context: AudioContext;
+  /** Starts `clip` on a channel, crossfading from whatever it was playing. No-op if it is already playing. */
+  play: (channel: ChannelName, clip: AudioClip) => Promise<void>;
+  stop: (channel: ChannelName, fadeOut?: number) => void;
+  /** Lowers a channel to `level` until the returned release function is called. */
+  duck: (channel: ChannelName, level: number, fade?: number) => () => void;
+  /** Where short, overlapping sounds such as sound effects should connect. */
+  input: (channel: ChannelName) => AudioNode;
+  /** The clip a channel is playing, or null. */
+  current: (channel: ChannelName) => AudioClip | null;
+  /** Seconds into the playing clip's file, following its loop region; null if nothing is audible yet. */
+  position: (channel: ChannelName) => number | null;
+  /** Analyser on the music and frame channels after ducking, before the master volume. */
+  analyser: () => AnalyserNode;
+  load: (src: string) => Promise<AudioBuffer>;
+  unlock: () => Promise<void>;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  status: () => AudioStatus;
+  subscribe: (listener: () => void) => () => void;
+  dispose: () => void;
+};
+
+const DEFAULT_FADE = 0.8;
+const CURVE_STEPS = 64;
+
+/**
+ * Moves `param` from its current value to `to` along a quarter sine, so a
+ * fade-out and a simultaneous fade-in always sum to constant power.
+ */
+export function fadeParam(param: AudioParam, to: number, duration: number, context: BaseAudioContext) {
+  const now = context.currentTime;
+  const from = param.value;
+  param.cancelScheduledValues(now);
+  if (duration <= 0 || Math.abs(to - from) < 1e-4) {
+    param.setValueAtTime(to, now);
+    return;
+  }
+  const curve = new Float32Array(CURVE_STEPS);
+  for (let index = 0; index < CURVE_STEPS; index++) {
+    const t = index / (CURVE_STEPS - 1);
+    curve[index] =
+      to > from
+        ? from + (to - from) * Math.sin((t * Math.PI) / 2)
+        : to + (from - to) * Math.cos((t * Math.PI) / 2);
+  }
+  param.setValueCurveAtTime(curve, now, duration);
+}
+
+type Voice = {
+  clip: AudioClip;
+  gain: GainNode;
+  source: AudioBufferSourceNode | null;
+  /** Context time at which the source started. */
+  startedAt: number;
+  loopEnd: number;
+};
+
+type Channel = {
+  output: GainNode;
+  duckGain: GainNode;
+  ducks: Set<{ level: number }>;
+  duckFade: number;
+  voice: Voice | null;
+};
+
+export function createAudioManager(): AudioManager {
+  const context = new AudioContext();
+  const master = context.createGain();
+  master.connect(context.destination);
+
+  const channels = {} as Record<ChannelName, Channel>;
+  for (const name of CHANNELS) {
+    const output = context.createGain();
+    const duckGain = context.createGain();
+    output.connect(duckGain).connect(master);
+    channels[name] = { output, duckGain, ducks: new Set(), duckFade: DEFAULT_FADE, voice: null };
+  }
+
+  const buffers = new Map<string, Promise<AudioBuffer>>();
+  const listeners = new Set<() => void>();
+  let status: AudioStatus = {
+    unlocked: context.state === "running",
+    muted: false,
+    volume: 1,
+    failed: [],
+  };
+
+  const update = (patch: Partial<AudioStatus>) => {
+    status = { ...status, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  context.addEventListener("statechange", () => {
+    update({ unlocked: context.state === "running" });
+  });
+
+  const applyMaster = () => {
+    fadeParam(master.gain, status.muted ? 0 : status.volume, 0.15, context);
+  };
+
+  const load = (src: string) => {
+    let buffer = buffers.get(src);
+    if (!buffer) {
+      buffer = fetch(src)
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error(`${src} responded with ${response.status}`);
+          }
+          return response.arrayBuffer();
+        })
+        .then((data) => context.decodeAudioData(data));
+      buffer.catch(() => {
+        buffers.delete(src);
+        if (!status.failed.includes(src)) {
+          update({ failed: [...status.failed, src] });
+        }
+      });
+      buffers.set(src, buffer);
+    }
+    return buffer;
+  };
+
+  const releaseVoice = (voice: Voice, fadeOut: number) => {
+    fadeParam(voice.gain.gain, 0, fadeOut, context);
+    voice.source?.stop(context.currentTime + fadeOut);
+    setTimeout(() => voice.gain.disconnect(), fadeOut * 1000 + 100);
+  };
+
+  const stop = (name: ChannelName, fadeOut?: number) => {
+    const channel = channels[name];
+    const voice = channel.voice;
+    if (!voice) {
+      return;
+    }
+    channel.voice = null;
+    releaseVoice(voice, fadeOut ?? voice.clip.fadeOut ?? DEFAULT_FADE);
+  };
+
+  const play = async (name: ChannelName, clip: AudioClip) => {
+    const channel = channels[name];
+    if (channel.voice?.clip.src === clip.src) {
+      return;
+    }
+    stop(name, clip.fadeIn);
+
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    gain.connect(channel.output);
+    const voice: Voice = { clip, gain, source: null, startedAt: 0, loopEnd: 0 };
+    channel.voice = voice;
+
+    let buffer: AudioBuffer;
+    try {
+      buffer = await load(clip.src);
+    } catch {
+      if (channel.voice === voice) {
+        channel.voice = null;
+      }
+      gain.disconnect();
+      return;
+    }
+    // Another clip (or a stop) replaced this one while it was loading.
+    if (channel.voice !== voice) {
+      gain.disconnect();
+      return;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = !clip.once;
+    source.loopStart = clip.loopStart ?? 0;
+    source.loopEnd = clip.loopEnd ?? buffer.duration;
+    source.connect(gain);
+    source.start(0, clip.startAt ?? 0);
+    voice.source = source;
+    voice.startedAt = context.currentTime;
+    voice.loopEnd = source.loopEnd;
+    fadeParam(gain.gain, clip.volume ?? 1, clip.fadeIn ?? DEFAULT_FADE, context);
+  };
+
+  const applyDucks = (channel: Channel) => {
+    let level = 1;
+    channel.ducks.forEach((duck) => {
+      level = Math.min(level, duck.level);
+    });
+    fadeParam(channel.duckGain.gain, level, channel.duckFade, context);
+  };
+
+  let analyser: AnalyserNode | null = null;
+
+  return {
+    context,
+    play,
+    stop,
+    duck(name, level, fade = DEFAULT_FADE) {
+      const channel = channels[name];
+      const duck = { level };
+      channel.ducks.add(duck);
+      channel.duckFade = fade;
+      applyDucks(channel);
+      return () => {
+        if (channel.ducks.delete(duck)) {
+          channel.duckFade = fade;
+          applyDucks(channel);
+        }
+      };
+    },
+    input: (name) => channels[name].output,
+    current: (name) => channels[name].voice?.clip ?? null,
+    position(name) {
+      const voice = channels[name].voice;
+      if (!voice?.source) {
+        return null;
+      }
+      const { clip } = voice;
+      const time = (clip.startAt ?? 0) + context.currentTime - voice.startedAt;
+      if (clip.once || time < voice.loopEnd) {
+        return time;
+      }
+      const loopStart = clip.loopStart ?? 0;
+      return loopStart + ((time - voice.loopEnd) % (voice.loopEnd - loopStart));
+    },
+    analyser() {
+      if (!analyser) {
+        analyser = context.createAnalyser();
+        analyser.fftSize = 1024;
+        analyser.smoothingTimeConstant = 0.5;
+        channels.music.duckGain.connect(analyser);
+        channels.frame.duckGain.connect(analyser);
+      }
+      return analyser;
+    },
+    load,
+    async unlock() {
+      if (context.state === "running" || context.state === "closed") {
+        return;
+      }
+      // Without a user gesture the browser refuses; the status stays locked and the prompt stays up.
+      await context.resume().catch(() => {});
+    },
+    setVolume(volume) {
+      update({ volume: Math.min(1, Math.max(0, volume)) });
+      applyMaster();
+    },
+    setMuted(muted) {
+      update({ muted });
+      applyMaster();
+    },
+    status: () => status,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose() {
+      listeners.clear();
+      void context.close();
+    },
+  };
+}
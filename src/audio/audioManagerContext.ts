@@ -0,0 +1,31 @@
+import { createContext, useContext, useEffect, useState, useSyncExternalStore } from "react";
+import { createAudioManager } from "./audioManager";
+import type { AudioManager } from "./audioManager";
+
+export const AudioManagerContext = createContext<AudioManager | null>(null);
+
+/**
+ * Owns one manager while the calling component is mounted; null until then.
+ * It is made in an effect, so every manager that is created is also disposed.
+ */
+export function useCreateAudioManager() {
+  const [manager, setManager] = useState<AudioManager | null>(null);
+  useEffect(() => {
+    const created = createAudioManager();
+    setManager(created);
+    return () => created.dispose();
+  }, []);
+  return manager;
+}
+
+export function useAudioManager(): AudioManager {
+  const manager = useContext(AudioManagerContext);
+  if (!manager) {
+    throw new Error("useAudioManager must be used inside an AudioManagerContext provider");
+  }
+  return manager;
+}
+
+export function useAudioStatus(manager: AudioManager) {
+  return useSyncExternalStore(manager.subscribe, manager.status);
+}
@@ -0,0 +1,40 @@
+/**
+ * Precomputed beats for a track, in seconds into the file: either explicit
+ * times (optionally with 0-1 strengths for accents) or a steady tempo.
+ */
+export type BeatMap =
+  | { times: number[]; strengths?: number[] }
+  | { bpm: number; offset?: number; /** Every nth beat is accented. */ accentEvery?: number };
+
+export type Beat = { time: number; strength: number };
+
+const DEFAULT_STRENGTH = 0.6;
+
+/** The strongest beat in `(from, to]`, or null if none falls inside. */
+export function beatBetween(map: BeatMap, from: number, to: number): Beat | null {
+  if (to <= from) {
+    return null;
+  }
+  if ("times" in map) {
+    let best: Beat | null = null;
+    map.times.forEach((time, index) => {
+      if (time > from && time <= to) {
+        const strength = map.strengths?.[index] ?? DEFAULT_STRENGTH;
+        if (!best || strength > best.strength) {
+          best = { time, strength };
+        }
+      }
+    });
+    return best;
+  }
+
+  const period = 60 / map.bpm;
+  const offset = map.offset ?? 0;
+  const index = Math.floor((to - offset) / period);
+  const time = offset + index * period;
+  if (index < 0 || time <= from) {
+    return null;
+  }
+  const accented = map.accentEvery !== undefined && index % map.accentEvery === 0;
+  return { time, strength: accented ? 1 : DEFAULT_STRENGTH };
+}
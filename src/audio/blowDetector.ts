@@ -0,0 +1,139 @@
+/**
+ * Listens to a microphone stream and tells a breath from room noise: blowing
+ * into a mic is loud and almost all low-frequency rumble, unlike speech or
+ * music. The stream is injected so synthetic audio can drive it too.
+ */
+export type BlowDetectorOptions = {
+  /** RMS above the noise floor where a breath starts to register. */
+  gentleThreshold?: number;
+  /** RMS above the noise floor that counts as a full blow. */
+  strongThreshold?: number;
+  /** How long a full blow has to last, in ms, before it puts the flame out. */
+  sustainMs?: number;
+  /** Share of spectral energy below `lowBandHz` required to count as breath. */
+  minLowBandRatio?: number;
+  lowBandHz?: number;
+  /** Reuse an existing context instead of creating one; it is then left open on dispose. */
+  context?: AudioContext;
+};
+
+export type BlowSample = {
+  /** Smoothed breath strength: 0 is silence, 1 is a full blow. */
+  breath: number;
+  /** True on the one sample where a sustained strong blow completes. */
+  blownOut: boolean;
+};
+
+export type BlowDetector = {
+  sample: (now: number) => BlowSample;
+  /** Starts a context the browser created suspended; false if it stays suspended. */
+  resume: () => Promise<boolean>;
+  dispose: () => void;
+};
+
+const DEFAULT_OPTIONS = {
+  gentleThreshold: 0.015,
+  strongThreshold: 0.12,
+  sustainMs: 400,
+  minLowBandRatio: 0.55,
+  lowBandHz: 600,
+};
+
+const FLOOR_ADAPT_RATE = 0.01;
+const BREATH_SMOOTHING = 0.3;
+
+export function createBlowDetector(
+  stream: MediaStream,
+  options: BlowDetectorOptions = {}
+): BlowDetector {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const context = options.context ?? new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  analyser.smoothingTimeConstant = 0.2;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const spectrum = new Float32Array(analyser.frequencyBinCount);
+  const lowBins = Math.max(
+    1,
+    Math.round((settings.lowBandHz / (context.sampleRate / 2)) * spectrum.length)
+  );
+
+  let noiseFloor = 0;
+  let breath = 0;
+  let strongSince: number | null = null;
+  let hasFired = false;
+
+  const lowBandRatio = () => {
+    analyser.getFloatFrequencyData(spectrum);
+    let low = 0;
+    let total = 0;
+    for (let index = 0; index < spectrum.length; index++) {
+      const power = 10 ** (spectrum[index] / 10);
+      total += power;
+      if (index < lowBins) {
+        low += power;
+      }
+    }
+    return total > 0 ? low / total : 0;
+  };
+
+  return {
+    async resume() {
+      if (context.state === "suspended") {
+        await context.resume().catch(() => {});
+      }
+      return context.state === "running";
+    },
+    sample(now) {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const value of samples) {
+        sum += value * value;
+      }
+      const rms = Math.sqrt(sum / samples.length);
+
+      // Only quiet moments teach the floor, so a long blow cannot raise it.
+      if (rms < noiseFloor + settings.gentleThreshold) {
+        noiseFloor += (rms - noiseFloor) * FLOOR_ADAPT_RATE;
+      }
+
+      const level = rms - noiseFloor;
+      const isBreath =
+        level > settings.gentleThreshold && lowBandRatio() >= settings.minLowBandRatio;
+      const target = isBreath
+        ? Math.min(
+            1,
+            (level - settings.gentleThreshold) /
+              (settings.strongThreshold - settings.gentleThreshold)
+          )
+        : 0;
+      breath += (target - breath) * BREATH_SMOOTHING;
+
+      let blownOut = false;
+      if (isBreath && level >= settings.strongThreshold) {
+        strongSince ??= now;
+        if (!hasFired && now - strongSince >= settings.sustainMs) {
+          hasFired = true;
+          blownOut = true;
+        }
+      } else {
+        strongSince = null;
+        if (!isBreath) {
+          hasFired = false;
+        }
+      }
+
+      return { breath, blownOut };
+    },
+    dispose() {
+      source.disconnect();
+      analyser.disconnect();
+      if (!options.context) {
+        void context.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,217 @@
+import type { AudioManager } from "./audioManager";
+
+type Point = { x: number; y: number; z: number };
+
+export type BurstSound = {
+  /** Shell power; bigger shells boom deeper and louder. */
+  size: number;
+  /** Adds the popping crackle of glittering stars. */
+  crackle: boolean;
+};
+
+export type FireworkSounds = {
+  /** Moves the listener to the camera; call every frame. */
+  listen: (position: Point, forward: Point, up: Point) => void;
+  /** A shell leaving the ground at `from`, reaching `to` after `duration` seconds. */
+  launch: (from: Point, to: Point, duration: number) => void;
+  burst: (position: Point, sound: BurstSound) => void;
+  dispose: () => void;
+};
+
+/* ─── tuning knobs ─── */
+const SOUND_SPEED = 40;          // scene units per second; slower than air so the delay reads at this scale
+const MAX_VOICES = 24;           // sounds beyond this are dropped rather than piling up
+const WHISTLE_CHANCE = 0.35;
+const REF_DISTANCE = 6;
+const ROLLOFF = 0.8;
+const AIR_ABSORPTION = 12;       // distance at which the high end has halved
+const NOISE_SECONDS = 2;
+
+/**
+ * Procedural firework sounds on the `sfx` channel: launch thumps and
+ * whistles, burst booms and crackle. Each sound is panned to where it
+ * happens and starts late by its distance from the camera, and a limiter
+ * keeps a finale from clipping.
+ */
+export function createFireworkSounds(manager: AudioManager): FireworkSounds {
+  const { context } = manager;
+  const bus = context.createGain();
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = -18;
+  limiter.knee.value = 6;
+  limiter.ratio.value = 12;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.25;
+  bus.connect(limiter).connect(manager.input("sfx"));
+
+  const listener = { x: 0, y: 0, z: 0 };
+  let noise: AudioBuffer | null = null;
+  let voices = 0;
+
+  const noiseBuffer = () => {
+    if (!noise) {
+      noise = context.createBuffer(1, context.sampleRate * NOISE_SECONDS, context.sampleRate);
+      const data = noise.getChannelData(0);
+      for (let index = 0; index < data.length; index++) {
+        data[index] = Math.random() * 2 - 1;
+      }
+    }
+    return noise;
+  };
+
+  /**
+   * Opens a voice at `position`: a panner plus an air-absorption filter,
+   * with the time its sound arrives at the listener. Null when the
+   * context is locked or too many sounds are already playing.
+   */
+  const openVoice = (position: Point, length: number) => {
+    if (context.state !== "running" || voices >= MAX_VOICES) {
+      return null;
+    }
+    const distance = Math.hypot(
+      position.x - listener.x,
+      position.y - listener.y,
+      position.z - listener.z
+    );
+    const panner = new PannerNode(context, {
+      panningModel: "equalpower",
+      distanceModel: "inverse",
+      refDistance: REF_DISTANCE,
+      rolloffFactor: ROLLOFF,
+      positionX: position.x,
+      positionY: position.y,
+      positionZ: position.z,
+    });
+    const air = new BiquadFilterNode(context, {
+      type: "lowpass",
+      frequency: 16000 / (1 + distance / AIR_ABSORPTION),
+    });
+    // Quieter per voice as more overlap, on top of the limiter.
+    const level = new GainNode(context, { gain: 1 / Math.sqrt(voices + 1) });
+    air.connect(level).connect(panner).connect(bus);
+
+    voices++;
+    const at = context.currentTime + distance / SOUND_SPEED;
+    setTimeout(
+      () => {
+        voices--;
+        air.disconnect();
+        level.disconnect();
+        panner.disconnect();
+      },
+      (at - context.currentTime + length) * 1000 + 100
+    );
+    return { input: air, panner, at };
+  };
+
+  const noiseSource = (at: number, duration: number) => {
+    const source = new AudioBufferSourceNode(context, { buffer: noiseBuffer(), loop: true });
+    source.start(at, Math.random() * NOISE_SECONDS);
+    source.stop(at + duration);
+    return source;
+  };
+
+  /** Gain that jumps to `peak` at `at` and dies away exponentially over `decay` seconds. */
+  const envelope = (at: number, peak: number, decay: number) => {
+    const gain = new GainNode(context, { gain: 0 });
+    gain.gain.setValueAtTime(0, at);
+    gain.gain.linearRampToValueAtTime(peak, at + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + decay);
+    return gain;
+  };
+
+  const thump = (output: AudioNode, at: number, peak: number) => {
+    const filter = new BiquadFilterNode(context, { type: "lowpass", frequency: 180 });
+    noiseSource(at, 0.2).connect(filter).connect(envelope(at, peak, 0.18)).connect(output);
+  };
+
+  const whistle = (output: AudioNode, at: number, duration: number) => {
+    const tone = new OscillatorNode(context, { type: "sine", frequency: 700 });
+    tone.frequency.setValueAtTime(700, at);
+    tone.frequency.linearRampToValueAtTime(1800 + Math.random() * 800, at + duration);
+    const gain = new GainNode(context, { gain: 0 });
+    gain.gain.setValueAtTime(0, at);
+    gain.gain.linearRampToValueAtTime(0.12, at + 0.1);
+    gain.gain.setValueAtTime(0.12, at + duration * 0.8);
+    gain.gain.linearRampToValueAtTime(0, at + duration);
+    tone.connect(gain).connect(output);
+    tone.start(at);
+    tone.stop(at + duration);
+  };
+
+  const boom = (output: AudioNode, at: number, size: number) => {
+    const decay = 1 + size * 0.6;
+    const filter = new BiquadFilterNode(context, { type: "lowpass", frequency: 500 - size * 150 });
+    noiseSource(at, decay).connect(filter).connect(envelope(at, 0.9, decay)).connect(output);
+
+    const sub = new OscillatorNode(context, { type: "sine", frequency: 90 });
+    sub.frequency.setValueAtTime(90, at);
+    sub.frequency.exponentialRampToValueAtTime(35, at + 0.4);
+    sub.connect(envelope(at, 0.7 * size, 0.6)).connect(output);
+    sub.start(at);
+    sub.stop(at + 0.6);
+  };
+
+  const crackle = (output: AudioNode, at: number, duration: number) => {
+    const filter = new BiquadFilterNode(context, { type: "highpass", frequency: 2500 });
+    const gain = new GainNode(context, { gain: 0 });
+    // A spray of tiny pops, denser at first like stars igniting together.
+    const pops = Array.from({ length: 40 }, () => at + Math.random() ** 1.5 * duration).sort(
+      (a, b) => a - b
+    );
+    for (const pop of pops) {
+      gain.gain.setValueAtTime(0, pop);
+      gain.gain.linearRampToValueAtTime(0.3 + Math.random() * 0.4, pop + 0.002);
+      gain.gain.linearRampToValueAtTime(0, pop + 0.015);
+    }
+    noiseSource(at, duration + 0.05).connect(filter).connect(gain).connect(output);
+  };
+
+  return {
+    listen(position, forward, up) {
+      listener.x = position.x;
+      listener.y = position.y;
+      listener.z = position.z;
+      const { listener: node } = context;
+      const now = context.currentTime;
+      node.positionX.setValueAtTime(position.x, now);
+      node.positionY.setValueAtTime(position.y, now);
+      node.positionZ.setValueAtTime(position.z, now);
+      node.forwardX.setValueAtTime(forward.x, now);
+      node.forwardY.setValueAtTime(forward.y, now);
+      node.forwardZ.setValueAtTime(forward.z, now);
+      node.upX.setValueAtTime(up.x, now);
+      node.upY.setValueAtTime(up.y, now);
+      node.upZ.setValueAtTime(up.z, now);
+    },
+    launch(from, to, duration) {
+      const hasWhistle = Math.random() < WHISTLE_CHANCE;
+      const voice = openVoice(from, hasWhistle ? duration : 0.2);
+      if (!voice) {
+        return;
+      }
+      thump(voice.input, voice.at, 0.35);
+      if (hasWhistle) {
+        // The whistle climbs with the shell.
+        voice.panner.positionY.setValueAtTime(from.y, voice.at);
+        voice.panner.positionY.linearRampToValueAtTime(to.y, voice.at + duration);
+        whistle(voice.input, voice.at, duration);
+      }
+    },
+    burst(position, { size, crackle: crackles }) {
+      const crackleLength = 1.2;
+      const voice = openVoice(position, 1 + size * 0.6 + (crackles ? crackleLength + 0.2 : 0));
+      if (!voice) {
+        return;
+      }
+      boom(voice.input, voice.at, size);
+      if (crackles) {
+        crackle(voice.input, voice.at + 0.2, crackleLength);
+      }
+    },
+    dispose() {
+      bus.disconnect();
+      limiter.disconnect();
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { AudioManager, ChannelName } from "./audioManager";
+import { beatBetween } from "./beatMap";
+import { createOnsetDetector } from "./onsetDetector";
+import type { OnsetSample } from "./onsetDetector";
+
+export type MusicPulse = OnsetSample;
+
+const SILENCE: MusicPulse = { onset: false, strength: 0, energy: 0 };
+/** Energy assumed while following a beat map, which has no loudness information. */
+const BEAT_MAP_ENERGY = 0.6;
+
+/**
+ * What the music is doing right now, for effects that should move with it.
+ * Follows the frame song while one plays, otherwise the background music,
+ * using the clip's beat map when it has one and live analysis when not.
+ */
+export function createMusicPulse(manager: AudioManager) {
+  let detector: ReturnType<typeof createOnsetDetector> | null = null;
+  let lastPosition: { channel: ChannelName; src: string; time: number } | null = null;
+
+  const fromBeatMap = (channel: ChannelName): MusicPulse | null => {
+    const clip = manager.current(channel);
+    const time = manager.position(channel);
+    if (!clip?.beats || time === null) {
+      return null;
+    }
+    const previous =
+      lastPosition?.channel === channel && lastPosition.src === clip.src ? lastPosition.time : time;
+    lastPosition = { channel, src: clip.src, time };
+    // A loop jumped back: only look at the stretch since the loop start.
+    const from = time < previous ? (clip.loopStart ?? 0) : previous;
+    const beat = beatBetween(clip.beats, from, time);
+    return {
+      onset: beat !== null,
+      strength: beat?.strength ?? 0,
+      energy: BEAT_MAP_ENERGY,
+    };
+  };
+
+  return {
+    sample(now: number): MusicPulse {
+      const channel: ChannelName = manager.current("frame") ? "frame" : "music";
+      if (!manager.current(channel) || !manager.status().unlocked) {
+        return SILENCE;
+      }
+      const mapped = fromBeatMap(channel);
+      if (mapped) {
+        return mapped;
+      }
+      detector ??= createOnsetDetector(manager.analyser());
+      return detector.sample(now);
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Live onset detection: spectral flux (how much louder each frequency bin got
+ * since the last frame) compared against its own recent average, weighted
+ * towards the low end where kicks and bass hits live.
+ */
+export type OnsetSample = {
+  /** True on the frame an onset is detected. */
+  onset: boolean;
+  /** How far above the threshold the onset was, 0-1. */
+  strength: number;
+  /** Smoothed loudness of the mix, 0-1. */
+  energy: number;
+};
+
+const HISTORY = 43;               // about 0.7 s of frames at 60 fps
+const SENSITIVITY = 1.5;          // flux must beat the average by this factor
+const MIN_FLUX = 0.002;
+const MIN_ONSET_GAP = 0.18;       // seconds; nothing in pop music is faster
+const BASS_WEIGHT_BINS = 24;
+const ENERGY_SMOOTHING = 0.08;
+
+export function createOnsetDetector(analyser: AnalyserNode) {
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  const previous = new Float32Array(analyser.frequencyBinCount);
+  const history: number[] = [];
+  let lastOnset = -Infinity;
+  let energy = 0;
+
+  return {
+    sample(now: number): OnsetSample {
+      analyser.getByteFrequencyData(spectrum);
+      let flux = 0;
+      let loudness = 0;
+      for (let index = 0; index < spectrum.length; index++) {
+        const value = spectrum[index] / 255;
+        const rise = value - previous[index];
+        if (rise > 0) {
+          flux += index < BASS_WEIGHT_BINS ? rise * 2 : rise;
+        }
+        loudness += value;
+        previous[index] = value;
+      }
+      flux /= spectrum.length;
+      energy += (loudness / spectrum.length - energy) * ENERGY_SMOOTHING;
+
+      const average = history.length
+        ? history.reduce((sum, value) => sum + value, 0) / history.length
+        : flux;
+      history.push(flux);
+      if (history.length > HISTORY) {
+        history.shift();
+      }
+
+      const threshold = Math.max(MIN_FLUX, average * SENSITIVITY);
+      const onset = flux > threshold && now - lastOnset >= MIN_ONSET_GAP;
+      if (onset) {
+        lastOnset = now;
+      }
+      return {
+        onset,
+        strength: onset ? Math.min(1, (flux - threshold) / threshold) : 0,
+        energy: Math.min(1, energy * 2),
+      };
+    },
+  };
+}
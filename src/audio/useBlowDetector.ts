@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createBlowDetector } from "./blowDetector";
+import type { BlowDetectorOptions } from "./blowDetector";
+
+export type MicrophoneStatus =
+  | "off"
+  | "requesting"
+  | "listening"
+  | "denied"
+  | "suspended"
+  | "unsupported";
+
+type UseBlowDetectorOptions = BlowDetectorOptions & {
+  enabled: boolean;
+  onBlowOut: () => void;
+  /** Skips `getUserMedia`, e.g. to feed synthetic audio from a test page. */
+  stream?: MediaStream;
+};
+
+/**
+ * Opt-in microphone blowing. Nothing is requested until `enabled` turns on,
+ * which should happen from a click so the permission prompt is expected.
+ */
+export function useBlowDetector({ enabled, onBlowOut, stream, ...options }: UseBlowDetectorOptions) {
+  const [status, setStatus] = useState<MicrophoneStatus>("off");
+  const breathRef = useRef(0);
+  const onBlowOutRef = useRef(onBlowOut);
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    onBlowOutRef.current = onBlowOut;
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus("off");
+      return;
+    }
+    if (!stream && !navigator.mediaDevices?.getUserMedia) {
+      setStatus("unsupported");
+      return;
+    }
+
+    let cancelled = false;
+    let frame = 0;
+    let dispose = () => {};
+    setStatus("requesting");
+
+    const listen = async () => {
+      // Browser voice processing treats a breath as noise and removes it.
+      const input =
+        stream ??
+        (await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+        }));
+      if (cancelled) {
+        if (!stream) {
+          input.getTracks().forEach((track) => track.stop());
+        }
+        return;
+      }
+      const detector = createBlowDetector(input, optionsRef.current);
+      dispose = () => {
+        detector.dispose();
+        if (!stream) {
+          input.getTracks().forEach((track) => track.stop());
+        }
+      };
+      // The stream arrives after the click that asked for it, so Safari leaves a new context suspended.
+      const running = await detector.resume();
+      if (cancelled) {
+        return;
+      }
+      if (!running) {
+        setStatus("suspended");
+        return;
+      }
+      setStatus("listening");
+
+      const tick = () => {
+        const sample = detector.sample(performance.now());
+        breathRef.current = sample.breath;
+        if (sample.blownOut) {
+          onBlowOutRef.current();
+        }
+        frame = requestAnimationFrame(tick);
+      };
+      tick();
+    };
+
+    listen().catch(() => {
+      if (!cancelled) {
+        setStatus("denied");
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      dispose();
+      breathRef.current = 0;
+    };
+  }, [enabled, stream]);
+
+  /** Current breath strength from 0 to 1; safe to call every frame. */
+  const readBreath = useCallback(() => breathRef.current, []);
+
+  return { status, readBreath };
+}
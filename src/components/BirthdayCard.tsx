@@ -1,21 +1,8 @@
-import { useCursor, useTexture } from "@react-three/drei";
-import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
-import {
-  useCallback,
-  useEffect,
-  useMemo,
-  useRef,
-  useState,
-  type ReactNode,
-} from "react";
-import {
-  DoubleSide,
-  Euler,
-  Group,
-  Quaternion,
-  SRGBColorSpace,
-  Vector3,
-} from "three";
+import { useTexture } from "@react-three/drei";
+import { useEffect, type ReactNode } from "react";
+import { DoubleSide, SRGBColorSpace } from "three";
+import { useInspectable } from "../inspection/useInspectable";
+import type { Vec3 } from "../scene/manifest";
 
 type BirthdayCardProps = {
   id: string;
@@ -24,6 +11,7 @@ type BirthdayCardProps = {
   tableRotation: [number, number, number];
   isActive: boolean;
   onToggle: (id: string) => void;
+  onDragChange?: (isDragging: boolean) => void;
   children?: ReactNode;
 };
 
@@ -31,8 +19,8 @@ const CARD_SCALE = 0.25;
 const CARD_WIDTH = 4 * CARD_SCALE;
 const CARD_HEIGHT = 3 * CARD_SCALE;
 const CAMERA_DISTANCE = 1.2;
+const CAMERA_OFFSET: Vec3 = [0, -0.05, 0];
 const CAMERA_Y_FLOOR = 0.8;
-const HOVER_LIFT = 0.04;
 
 export function BirthdayCard({
   id,
@@ -41,13 +29,20 @@ export function BirthdayCard({
   tableRotation,
   isActive,
   onToggle,
+  onDragChange,
   children,
 }: BirthdayCardProps) {
-  const groupRef = useRef<Group>(null);
-  const { camera } = useThree();
-  const [isHovered, setIsHovered] = useState(false);
-
-  useCursor(isHovered || isActive, "pointer");
+  const { ref, handlers } = useInspectable({
+    id,
+    tablePosition,
+    tableRotation,
+    isActive,
+    onToggle,
+    onDragChange,
+    cameraDistance: CAMERA_DISTANCE,
+    cameraOffset: CAMERA_OFFSET,
+    minHeight: CAMERA_Y_FLOOR,
+  });
 
   const texture = useTexture(image);
   useEffect(() => {
@@ -55,110 +50,10 @@ export function BirthdayCard({
     texture.anisotropy = 4;
   }, [texture]);
 
-  const defaultPosition = useMemo(
-    () => new Vector3(...tablePosition),
-    [tablePosition]
-  );
-  const defaultQuaternion = useMemo(() => {
-    const euler = new Euler(...tableRotation);
-    return new Quaternion().setFromEuler(euler);
-  }, [tableRotation]);
-
-  useEffect(() => {
-    const group = groupRef.current;
-    if (!group) {
-      return;
-    }
-    group.position.copy(defaultPosition);
-    group.quaternion.copy(defaultQuaternion);
-  }, [defaultPosition, defaultQuaternion]);
-
-  useEffect(() => {
-    if (!isActive) {
-      setIsHovered(false);
-    }
-  }, [isActive]);
-
-  const tmpPosition = useMemo(() => new Vector3(), []);
-  const tmpQuaternion = useMemo(() => new Quaternion(), []);
-  const tmpDirection = useMemo(() => new Vector3(), []);
-  const cameraOffset = useMemo(() => new Vector3(0, -0.05, 0), []);
-
-  useFrame((_, delta) => {
-    const group = groupRef.current;
-    if (!group) {
-      return;
-    }
-
-    const positionTarget = tmpPosition;
-    const rotationTarget = tmpQuaternion;
-
-    if (isActive) {
-      positionTarget.copy(camera.position);
-      positionTarget.add(
-        tmpDirection
-          .copy(camera.getWorldDirection(tmpDirection))
-          .multiplyScalar(CAMERA_DISTANCE)
-      );
-      positionTarget.add(cameraOffset);
-      if (positionTarget.y < CAMERA_Y_FLOOR) {
-        positionTarget.y = CAMERA_Y_FLOOR;
-      }
-
-      rotationTarget.copy(camera.quaternion);
-    } else {
-      positionTarget.copy(defaultPosition);
-      if (isHovered) {
-        positionTarget.y += HOVER_LIFT;
-      }
-      rotationTarget.copy(defaultQuaternion);
-    }
-
-    const lerpAlpha = 1 - Math.exp(-delta * 12);
-    const slerpAlpha = 1 - Math.exp(-delta * 10);
-
-    group.position.lerp(positionTarget, lerpAlpha);
-    group.quaternion.slerp(rotationTarget, slerpAlpha);
-  });
-
-  const handlePointerOver = useCallback(
-    (event: ThreeEvent<PointerEvent>) => {
-      event.stopPropagation();
-      if (!isActive) {
-        setIsHovered(true);
-      }
-    },
-    [isActive]
-  );
-
-  const handlePointerOut = useCallback((event: ThreeEvent<PointerEvent>) => {
-    event.stopPropagation();
-    setIsHovered(false);
-  }, []);
-
-  const handlePointerDown = useCallback((event: ThreeEvent<PointerEvent>) => {
-    event.stopPropagation();
-  }, []);
-
-  const handleClick = useCallback(
-    (event: ThreeEvent<MouseEvent>) => {
-      event.stopPropagation();
-      onToggle(id);
-    },
-    [id, onToggle]
-  );
-
   return (
-    <group ref={groupRef}>
+    <group ref={ref}>
       <group rotation={[0, 0, 0]}>
-        <mesh
-          onPointerOver={handlePointerOver}
-          onPointerOut={handlePointerOut}
-          onPointerDown={handlePointerDown}
-          onClick={handleClick}
-          castShadow
-          receiveShadow
-        >
+        <mesh {...handlers} castShadow receiveShadow>
           <planeGeometry args={[CARD_WIDTH, CARD_HEIGHT]} />
           <meshStandardMaterial
             map={texture}
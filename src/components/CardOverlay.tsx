@@ -1,24 +1,41 @@
 
 import { motion, AnimatePresence } from "framer-motion";
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
+import { useInputAction } from "../input/inputContext";
+import { useCoarsePointer } from "../input/useCoarsePointer";
+import type { LetterConfig } from "../scene/manifest";
 
 interface CardOverlayProps {
   isOpen: boolean;
+  letters: ReadonlyArray<LetterConfig>;
   onClose: () => void;
 }
 
-const CARDS = [
-  { src: "/letter_one.png", rotation: -12, x: -60, y: -40 },
-  { src: "/letter_two.png", rotation: 8, x: 40, y: -60 },
-  { src: "/letter_three.png", rotation: -5, x: -20, y: 10 },
-  { src: "/letter_four.png", rotation: 15, x: 50, y: 30 },
-  { src: "/letter_five.png", rotation: -8, x: -50, y: 50 },
-];
+const CARD_WIDTH = 450;
+const FOCUSED_SCALE = 1.5;
 
-export function CardOverlay({ isOpen, onClose }: CardOverlayProps) {
+function useViewportWidth() {
+  const [width, setWidth] = useState(() => window.innerWidth);
+  useEffect(() => {
+    const handleResize = () => setWidth(window.innerWidth);
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+  return width;
+}
+
+export function CardOverlay({ isOpen, letters, onClose }: CardOverlayProps) {
   const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
   const isDragging = useRef(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const isTouch = useCoarsePointer();
+  const viewportWidth = useViewportWidth();
+  // Letter positions are authored for a desktop screen; narrower screens shrink
+  // the cards and their scatter together, and a focused card never overflows.
+  const fit = Math.min(1, (viewportWidth * 0.8) / CARD_WIDTH);
+  const cardWidth = CARD_WIDTH * fit;
+  const focusedScale = Math.min(FOCUSED_SCALE, (viewportWidth * 0.95) / cardWidth);
+  const tapOrClick = isTouch ? "TAP" : "CLICK";
 
   const handleBackgroundClick = () => {
     if (focusedIndex !== null) {
@@ -28,6 +45,21 @@ export function CardOverlay({ isOpen, onClose }: CardOverlayProps) {
     }
   };
 
+  // Next and back page through the letters one at a time; close steps back out.
+  const step = (direction: number) => {
+    if (!isOpen || letters.length === 0) return;
+    setFocusedIndex((current) =>
+      current === null
+        ? (direction > 0 ? 0 : letters.length - 1)
+        : (current + direction + letters.length) % letters.length
+    );
+  };
+  useInputAction("next", () => step(1));
+  useInputAction("back", () => step(-1));
+  useInputAction("closeInspection", () => {
+    if (isOpen) handleBackgroundClick();
+  });
+
   const handleCardClick = (index: number, e: React.MouseEvent) => {
     e.stopPropagation();
     if (isDragging.current) {
@@ -48,10 +80,7 @@ export function CardOverlay({ isOpen, onClose }: CardOverlayProps) {
            ref={containerRef}
            style={{
              position: 'fixed',
-             top: 0,
-             left: 0,
-             width: '100vw',
-             height: '100vh',
+             inset: 0,
              zIndex: 9999,
              display: 'flex',
              alignItems: 'center',
@@ -61,8 +90,8 @@ export function CardOverlay({ isOpen, onClose }: CardOverlayProps) {
            }}
         >
            {/* Close Hint */}
-           <div style={{ position: 'absolute', top: 30, right: 30, color: 'rgba(255,255,255,0.6)', cursor: 'pointer', fontFamily: 'monospace', letterSpacing: '2px', fontSize: '0.9rem' }}>
-              {focusedIndex !== null ? "[ CLICK BACKGROUND TO UNFOCUS ]" : "[ CLICK BACKGROUND TO CLOSE ]"}
+           <div style={{ position: 'absolute', top: 'calc(30px + env(safe-area-inset-top))', right: 'calc(30px + env(safe-area-inset-right))', left: 30, textAlign: 'right', color: 'rgba(255,255,255,0.6)', cursor: 'pointer', fontFamily: 'monospace', letterSpacing: '2px', fontSize: '0.9rem' }}>
+              {focusedIndex !== null ? `[ ${tapOrClick} BACKGROUND TO UNFOCUS ]` : `[ ${tapOrClick} BACKGROUND TO CLOSE ]`}
            </div>
 
            <div 
@@ -76,13 +105,13 @@ export function CardOverlay({ isOpen, onClose }: CardOverlayProps) {
                perspective: '1000px'
              }}
            >
-              {CARDS.map((card, index) => {
+              {letters.map((card, index) => {
                  const isFocused = focusedIndex === index;
                  
                  return (
                    <motion.img
-                     key={card.src}
-                     src={card.src}
+                     key={`${card.image}-${index}`}
+                     src={card.image}
                      onDragStart={() => { isDragging.current = true; }}
                      onDragEnd={() => { setTimeout(() => { isDragging.current = false; }, 100); }}
                      onClick={(e) => handleCardClick(index, e)}
@@ -93,12 +122,12 @@ export function CardOverlay({ isOpen, onClose }: CardOverlayProps) {
                      dragTransition={{ power: 0.3, timeConstant: 200 }}
                      initial={{ scale: 0, opacity: 0, y: 100, rotate: 0 }}
                      animate={{ 
-                        scale: isFocused ? 1.5 : 0.75, 
+                        scale: isFocused ? focusedScale : 0.75, 
                         opacity: (focusedIndex !== null && !isFocused) ? 0.3 : 1, 
                         rotate: isFocused ? 0 : [card.rotation - 2, card.rotation + 2], // Dancing rotation
-                        x: isFocused ? 0 : card.x,
-                        y: isFocused ? 0 : [card.y - 5, card.y + 5], // Dancing Y-axis
-                        zIndex: isFocused ? 1000 : (CARDS.length - index), 
+                        x: isFocused ? 0 : card.x * fit,
+                        y: isFocused ? 0 : [card.y * fit - 5, card.y * fit + 5], // Dancing Y-axis
+                        zIndex: isFocused ? 1000 : (letters.length - index), 
                      }}
                      transition={{ 
                         rotate: {
@@ -115,10 +144,11 @@ export function CardOverlay({ isOpen, onClose }: CardOverlayProps) {
                         },
                         default: { type: "spring", stiffness: 200, damping: 20 }
                      }}
-                     whileHover={{ scale: isFocused ? 1.5 : 0.88, zIndex: 100 }}
+                     whileHover={{ scale: isFocused ? focusedScale : 0.88, zIndex: 100 }}
                      style={{
                         position: 'absolute',
-                        width: '450px',
+                        width: `${cardWidth}px`,
+                        touchAction: 'none',
                         height: 'auto',
                         cursor: isFocused ? 'zoom-out' : 'grab',
                         boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
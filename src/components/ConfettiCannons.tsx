@@ -0,0 +1,97 @@
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import { Color, DoubleSide, InstancedMesh, MeshStandardMaterial, Object3D } from "three";
+import { createAmbientGeometry } from "../ambient/ambientModes";
+import {
+  createConfettiPool,
+  DEFAULT_CONFETTI_CANNONS,
+  DEFAULT_CONFETTI_COLORS,
+  DEFAULT_CONFETTI_PIECES,
+  fireConfetti,
+  MAX_CONFETTI,
+  stepConfetti,
+  UNUSED,
+} from "../ambient/confetti";
+import type { ConfettiConfig } from "../ambient/confetti";
+import { settleFade } from "../ambient/surfaces";
+import type { SurfaceSet } from "../ambient/surfaces";
+import { useExperienceEvent } from "../experience/experienceContext";
+
+type ConfettiCannonsProps = {
+  config?: ConfettiConfig;
+  /** Surfaces the confetti lands and rests on. */
+  surfaces?: SurfaceSet;
+};
+
+/** Paper confetti shot from cannons around the cake whenever a `confetti` event is emitted on the bus. */
+export function ConfettiCannons({ config, surfaces }: ConfettiCannonsProps) {
+  const meshRef = useRef<InstancedMesh>(null);
+  const pool = useMemo(() => createConfettiPool(MAX_CONFETTI), []);
+  const dummy = useMemo(() => new Object3D(), []);
+  const geometry = useMemo(() => createAmbientGeometry("confetti"), []);
+  const material = useMemo(
+    () => new MeshStandardMaterial({ side: DoubleSide, roughness: 0.6 }),
+    []
+  );
+  const colors = config?.colors?.length ? config.colors : DEFAULT_CONFETTI_COLORS;
+  const palette = useMemo(() => colors.map((color) => new Color(color)), [colors]);
+  // Whether the last frame drew anything, so an empty pool is hidden once and then skipped.
+  const drawnRef = useRef(false);
+
+  useEffect(
+    () => () => {
+      geometry.dispose();
+      material.dispose();
+    },
+    [geometry, material]
+  );
+
+  useExperienceEvent("confetti", ({ cannons }) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    fireConfetti(
+      pool,
+      cannons ?? config?.cannons ?? DEFAULT_CONFETTI_CANNONS,
+      config?.pieces ?? DEFAULT_CONFETTI_PIECES,
+      palette.length
+    );
+    pool.color.forEach((color, index) => mesh.setColorAt(index, palette[color]));
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  useFrame(({ clock }, rawDelta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const delta = Math.min(rawDelta, 0.05);
+    surfaces?.update();
+    stepConfetti(pool, clock.elapsedTime, delta, surfaces);
+    if (pool.alive === 0 && !drawnRef.current) {
+      return;
+    }
+    drawnRef.current = pool.alive > 0;
+    mesh.visible = drawnRef.current;
+
+    const { position, rotation, size, settled, state } = pool;
+    for (let index = 0; index < state.length; index++) {
+      const i3 = index * 3;
+      dummy.position.set(position[i3], position[i3 + 1], position[i3 + 2]);
+      dummy.rotation.set(rotation[i3], rotation[i3 + 1], rotation[i3 + 2]);
+      // Resting pieces shrink away at the end, as the ambient ones do.
+      const fade = settled[index] > 0 ? settleFade(settled[index]) : 1;
+      dummy.scale.setScalar(state[index] === UNUSED ? 0 : size[index] * fade);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(index, dummy.matrix);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[geometry, material, MAX_CONFETTI]}
+      frustumCulled={false}
+      visible={false}
+    />
+  );
+}
@@ -1,35 +1,74 @@
 import { useFrame } from "@react-three/fiber";
-import { useRef, useMemo } from "react";
+import { useEffect, useRef, useMemo } from "react";
 import {
   AdditiveBlending,
   BufferAttribute,
   BufferGeometry,
+  Color,
+  DoubleSide,
+  InstancedMesh,
   MathUtils,
+  MeshBasicMaterial,
+  MeshStandardMaterial,
+  Object3D,
   PointsMaterial,
 } from "three";
+import {
+  AMBIENT_AREA,
+  AMBIENT_BOTTOM_Y,
+  AMBIENT_MODES,
+  AMBIENT_TOP_Y,
+  createAmbientGeometry,
+  createAmbientParticle,
+  settleAmbientParticle,
+  spawnAmbientParticle,
+} from "../ambient/ambientModes";
+import type { AmbientMode, AmbientModeName } from "../ambient/ambientModes";
+import { SETTLE_LIFT, settleDuration, settleFade } from "../ambient/surfaces";
+import type { SurfaceSet } from "../ambient/surfaces";
 
 type FallingSparklesProps = {
   isActive: boolean;
+  /** What falls; see `src/ambient/ambientModes.ts`. Defaults to sparkles. */
+  mode?: AmbientModeName;
+  /** Surfaces particles land and rest on instead of falling through. */
+  surfaces?: SurfaceSet;
 };
 
 const PARTICLE_COUNT = 400;
-const AREA_X = 20;        // width of the snow area
-const AREA_Z = 20;        // depth of the snow area
-const TOP_Y = 12;         // spawn height
-const BOTTOM_Y = -2;      // despawn height
+const AREA_X = AMBIENT_AREA;  // width of the snow area
+const AREA_Z = AMBIENT_AREA;  // depth of the snow area
+const TOP_Y = AMBIENT_TOP_Y;  // spawn height
+const BOTTOM_Y = AMBIENT_BOTTOM_Y; // despawn height
 const FALL_SPEED_MIN = 0.8;
 const FALL_SPEED_MAX = 2.0;
 const DRIFT_SPEED = 0.3;  // horizontal sway
 const PARTICLE_SIZE = 0.04;
 
-export function FallingSparkles({ isActive }: FallingSparklesProps) {
+export function FallingSparkles({ isActive, mode = "sparkles", surfaces }: FallingSparklesProps) {
+  if (mode === "sparkles") {
+    return <SparklePoints isActive={isActive} surfaces={surfaces} />;
+  }
+  // Keyed so a new mode starts with fresh particles rather than morphing the old ones.
+  return (
+    <AmbientInstances
+      key={mode}
+      isActive={isActive}
+      mode={AMBIENT_MODES[mode]}
+      surfaces={surfaces}
+    />
+  );
+}
+
+function SparklePoints({ isActive, surfaces }: { isActive: boolean; surfaces?: SurfaceSet }) {
   const geometryRef = useRef<BufferGeometry>(null);
   const materialRef = useRef<PointsMaterial>(null);
 
-  const { positions, colors, velocities } = useMemo(() => {
+  const { positions, colors, baseColors, velocities, settled } = useMemo(() => {
     const pos = new Float32Array(PARTICLE_COUNT * 3);
     const col = new Float32Array(PARTICLE_COUNT * 3);
     const vel = new Float32Array(PARTICLE_COUNT * 3); // vx, vy, vz
+    const rest = new Float32Array(PARTICLE_COUNT); // seconds left on a surface; 0 while falling
 
     for (let i = 0; i < PARTICLE_COUNT; i++) {
       const i3 = i * 3;
@@ -63,7 +102,7 @@ export function FallingSparkles({ isActive }: FallingSparklesProps) {
       vel[i3 + 2] = (Math.random() - 0.5) * DRIFT_SPEED;
     }
 
-    return { positions: pos, colors: col, velocities: vel };
+    return { positions: pos, colors: col, baseColors: col.slice(), velocities: vel, settled: rest };
   }, []);
 
   useFrame((_, rawDelta) => {
@@ -81,10 +120,31 @@ export function FallingSparkles({ isActive }: FallingSparklesProps) {
     mat.opacity = MathUtils.damp(mat.opacity, 0.6, 2, delta);
 
     const posAttr = geom.getAttribute("position") as BufferAttribute;
+    const colorAttr = geom.getAttribute("color") as BufferAttribute;
+    surfaces?.update();
 
     for (let i = 0; i < PARTICLE_COUNT; i++) {
       const i3 = i * 3;
 
+      // Resting on the table or cake: dim out over the last moments, then start again at the top.
+      if (settled[i] > 0) {
+        settled[i] = Math.max(0, settled[i] - delta);
+        const fade = settleFade(settled[i]);
+        colors[i3] = baseColors[i3] * fade;
+        colors[i3 + 1] = baseColors[i3 + 1] * fade;
+        colors[i3 + 2] = baseColors[i3 + 2] * fade;
+        colorAttr.needsUpdate = true;
+        if (settled[i] === 0) {
+          positions[i3] = (Math.random() - 0.5) * AREA_X;
+          positions[i3 + 1] = TOP_Y + Math.random() * 2;
+          positions[i3 + 2] = (Math.random() - 0.5) * AREA_Z;
+          colors.set(baseColors.subarray(i3, i3 + 3), i3);
+        }
+        continue;
+      }
+
+      const fromY = positions[i3 + 1];
+
       // Gentle sinusoidal sway
       const sway = Math.sin(Date.now() * 0.001 + i) * 0.15;
 
@@ -92,8 +152,12 @@ export function FallingSparkles({ isActive }: FallingSparklesProps) {
       positions[i3 + 1] += velocities[i3 + 1] * delta;
       positions[i3 + 2] += (velocities[i3 + 2] + sway * 0.5) * delta;
 
-      // Respawn at top when particle falls below
-      if (positions[i3 + 1] < BOTTOM_Y) {
+      const floor = surfaces?.floorAt(positions[i3], positions[i3 + 2], fromY) ?? -Infinity;
+      if (positions[i3 + 1] <= floor + SETTLE_LIFT) {
+        positions[i3 + 1] = floor + SETTLE_LIFT;
+        settled[i] = settleDuration();
+      } else if (positions[i3 + 1] < BOTTOM_Y) {
+        // Respawn at top when particle falls below
         positions[i3] = (Math.random() - 0.5) * AREA_X;
         positions[i3 + 1] = TOP_Y + Math.random() * 2;
         positions[i3 + 2] = (Math.random() - 0.5) * AREA_Z;
@@ -128,3 +192,114 @@ export function FallingSparkles({ isActive }: FallingSparklesProps) {
     </points>
   );
 }
+
+/* ─── instanced modes: confetti, petals, hearts, snow ─── */
+type AmbientInstancesProps = {
+  isActive: boolean;
+  mode: AmbientMode;
+  surfaces?: SurfaceSet;
+};
+
+function AmbientInstances({ isActive, mode, surfaces }: AmbientInstancesProps) {
+  const meshRef = useRef<InstancedMesh>(null);
+  const dummy = useMemo(() => new Object3D(), []);
+  const geometry = useMemo(() => createAmbientGeometry(mode.shape), [mode]);
+  const material = useMemo(
+    () =>
+      mode.unlit
+        ? new MeshBasicMaterial({ transparent: true, opacity: 0, depthWrite: false })
+        : new MeshStandardMaterial({
+            side: DoubleSide,
+            transparent: true,
+            opacity: 0,
+            roughness: 0.7,
+            depthWrite: false,
+          }),
+    [mode]
+  );
+  const particles = useMemo(
+    () =>
+      Array.from({ length: mode.count }, () => {
+        const particle = createAmbientParticle();
+        spawnAmbientParticle(particle, mode, true);
+        return particle;
+      }),
+    [mode]
+  );
+
+  useEffect(
+    () => () => {
+      geometry.dispose();
+      material.dispose();
+    },
+    [geometry, material]
+  );
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const palette = mode.colors.map((color) => new Color(color));
+    particles.forEach((particle, index) => mesh.setColorAt(index, palette[particle.color]));
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [mode, particles]);
+
+  useFrame(({ camera, clock }, rawDelta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const delta = Math.min(rawDelta, 0.05);
+
+    if (!isActive) {
+      material.opacity = MathUtils.damp(material.opacity, 0, 4, delta);
+      mesh.visible = material.opacity > 0.01;
+      return;
+    }
+
+    material.opacity = MathUtils.damp(material.opacity, mode.opacity, 2, delta);
+    mesh.visible = true;
+
+    const time = clock.elapsedTime;
+    surfaces?.update();
+    particles.forEach((particle, index) => {
+      const { position } = particle;
+      if (particle.settled > 0) {
+        particle.settled -= delta;
+        if (particle.settled <= 0) {
+          spawnAmbientParticle(particle, mode, false);
+        }
+      } else {
+        const fromY = position.y;
+        mode.move(particle, time, delta);
+        const floor = surfaces?.floorAt(position.x, position.z, fromY) ?? -Infinity;
+        if (position.y <= floor + SETTLE_LIFT) {
+          settleAmbientParticle(particle, floor);
+        } else if (position.y < BOTTOM_Y) {
+          spawnAmbientParticle(particle, mode, false);
+        }
+      }
+
+      dummy.position.copy(position);
+      if (mode.faceCamera && particle.settled <= 0) {
+        dummy.quaternion.copy(camera.quaternion);
+        dummy.rotateZ(particle.rotation.z);
+      } else {
+        dummy.rotation.copy(particle.rotation);
+      }
+      // Settled pieces shrink away rather than fade, since instances share one opacity.
+      const fade = particle.settled > 0 ? settleFade(particle.settled) : 1;
+      dummy.scale.setScalar(particle.scale * fade);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(index, dummy.matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[geometry, material, mode.count]}
+      frustumCulled={false}
+      visible={false}
+    />
+  );
+}
@@ -1,63 +1,295 @@
-import { useFrame } from "@react-three/fiber";
+import { useFrame, useThree } from "@react-three/fiber";
 import { useEffect, useMemo, useRef } from "react";
 import {
   AdditiveBlending,
   BufferAttribute,
   BufferGeometry,
+  DynamicDrawUsage,
   MathUtils,
-  PointsMaterial,
+  Plane,
+  Raycaster,
+  ShaderMaterial,
+  Vector2,
   Vector3,
 } from "three";
+import type { FireworkSounds } from "../audio/fireworkSounds";
+import type { MusicPulse } from "../audio/musicPulse";
+import { useExperienceEvent } from "../experience/experienceContext";
+import { BRIGHT_PALETTES, CALM_PALETTES, PALETTES, pickPalette } from "../fireworks/palettes";
+import type { PaletteColor } from "../fireworks/palettes";
+import {
+  pickShellType,
+  SHELL_TYPE_NAMES,
+  SHELL_TYPES,
+  starLayout,
+} from "../fireworks/shellTypes";
+import type { ShellTypeName } from "../fireworks/shellTypes";
+import { scheduleShow, seededRandom } from "../fireworks/show";
+import type { FireworksShow, ScheduledShell } from "../fireworks/show";
+import { sampleTextPoints, textPoints } from "../fireworks/textPoints";
+import type { TextPoints } from "../fireworks/textPoints";
 
 type FireworksProps = {
   isActive: boolean;
-  origin?: [number, number, number];
+  /** The point the show surrounds; shells burst in front of the camera as seen from here. */
+  center?: [number, number, number];
+  /** How far beyond `center`, away from the camera, the shells rise. */
+  distance?: number;
+  /** Height above `center` of the lowest bursts. */
+  height?: number;
+  /** Read every frame; when given, launches and bursts follow the music instead of a fixed timer. */
+  pulse?: () => MusicPulse;
+  /** Shell types to mix; defaults to all of them. */
+  shellTypes?: ReadonlyArray<ShellTypeName>;
+  /** What "text" shells spell out. */
+  text?: string;
+  /** A scripted show to play instead of random launches; see `src/fireworks/show.ts`. */
+  show?: FireworksShow;
+  /** Plays launches and bursts where they happen, as heard from the camera. */
+  sounds?: FireworkSounds;
 };
 
 /* ─── tuning knobs ─── */
-const MAX_SHELLS = 12;            // concurrent firework shells
-const PARTICLES_PER_SHELL = 80;   // explosion sparkles per shell
+const MAX_SHELLS = 120;           // concurrent firework shells
+const PARTICLES_PER_SHELL = 800;  // explosion sparkles per shell
 const TRAIL_PARTICLES_PER_SHELL = 12; // rising trail dots per shell
 const TOTAL_BURST = MAX_SHELLS * PARTICLES_PER_SHELL;
 const TOTAL_TRAIL = MAX_SHELLS * TRAIL_PARTICLES_PER_SHELL;
-const TOTAL_PARTICLES = TOTAL_BURST + TOTAL_TRAIL;
 const GRAVITY = -3.8;
-const DRAG = 0.97;                // velocity damping per frame for burst particles
+const DRAG = 0.97;                // velocity kept per frame at 60 fps for burst particles
 const LAUNCH_INTERVAL = 0.35;     // seconds between shell launches
 const SHELL_RISE_SPEED_MIN = 6;
 const SHELL_RISE_SPEED_MAX = 10;
-const BURST_SPEED_MIN = 2;
-const BURST_SPEED_MAX = 5;
 const BURST_LIFETIME_MIN = 1.0;
 const BURST_LIFETIME_MAX = 2.2;
+const MUSIC_LAUNCH_INTERVAL_QUIET = 0.9;  // seconds between launches in quiet passages
+const MUSIC_LAUNCH_INTERVAL_LOUD = 0.3;   // ...and when the music is at full energy
+const MIN_DETONATE_PROGRESS = 0.6;        // shells must have risen this far to burst early on a beat
+const STRONG_BEAT = 0.8;
+const TRAIL_SPACING = 0.05;               // seconds of travel between a star and each spark behind it
+const SPLIT_SPEED = 2.2;
+const SHOW_RISE_TIME = 0.8;               // seconds a scripted shell climbs before its cue
+const SHOW_LOOP_PAUSE = 3;                // seconds between the last cue and a looping show's restart
+const SKY_CLICK_COOLDOWN = 0.25;          // seconds between shells launched by clicking the sky
+const SKY_CLICK_MIN_HEIGHT = 2;           // clicked bursts stay at least this far above the launch line
 
 const SPARKLE_SIZE = 0.06;        // small dots like distant fireworks
 const TRAIL_SIZE = 0.03;
-const SPREAD_X = 4;               // depth variation (camera looks along -X)
-const SPREAD_Z = 16;              // wide horizontal spread (Z = left/right in camera view)
-
-/* ─── colour palettes ─── */
-const PALETTES: [number, number, number][][] = [
-  // gold + white
-  [[1, 0.85, 0.3], [1, 0.95, 0.7], [1, 1, 1]],
-  // magenta + pink
-  [[1, 0.2, 0.6], [1, 0.5, 0.8], [1, 0.8, 1]],
-  // cyan + blue
-  [[0.2, 0.8, 1], [0.4, 0.6, 1], [0.7, 0.9, 1]],
-  // green + lime
-  [[0.3, 1, 0.4], [0.6, 1, 0.3], [0.8, 1, 0.7]],
-  // red + orange
-  [[1, 0.25, 0.15], [1, 0.55, 0.1], [1, 0.8, 0.4]],
-  // purple + violet
-  [[0.6, 0.2, 1], [0.8, 0.4, 1], [0.9, 0.7, 1]],
-  // white + silver
-  [[1, 1, 1], [0.9, 0.95, 1], [0.8, 0.85, 0.95]],
-];
-
-const pickPalette = () => PALETTES[Math.floor(Math.random() * PALETTES.length)];
+const TRAIL_COLOR: PaletteColor = [1, 0.85, 0.4];
+const TRAIL_JITTER = 0.15;
+const TRAIL_LIFETIME = 999;       // cut short when the shell bursts
+const SPREAD_DEPTH = 4;           // depth variation, away from the camera
+const SPREAD_WIDTH = 16;          // wide horizontal spread across the view
+const SKY_TURN_RATE = 1.5;        // how quickly the launch area follows the camera around
+
+/*
+ * Particles are written once, when they are born, and the vertex shader
+ * works out where each one is from its birth time, velocity, drag and
+ * gravity. Only shells (a few numbers each) are stepped on the CPU.
+ */
+const vertexShader = `
+  uniform float time;
+  uniform float viewportHeight;
+  uniform float jitter;
+  attribute vec3 velocity;
+  attribute vec3 tint;
+  attribute vec3 fadeTint;
+  attribute vec3 timing;  // birth time, lifetime, random seed
+  attribute vec4 motion;  // drag rate, gravity, strobe rate, lag behind the birth time
+  attribute float size;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  float hash(float n) {
+    return fract(sin(n) * 43758.5453123);
+  }
+
+  void main() {
+    float age = time - timing.x;
+    float life = timing.y;
+    float t = age - motion.w;
+    if (t < 0.0 || age > life) {
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+
+    // Exact solution of v' = -k v + g, so motion does not depend on the frame rate.
+    float k = motion.x;
+    float g = motion.y;
+    float travel = k > 0.0001 ? (1.0 - exp(-k * t)) / k : t;
+    vec3 pos = position + velocity * travel;
+    pos.y += k > 0.0001 ? g / k * (t - travel) : 0.5 * g * t * t;
+
+    float frame = floor(time * 60.0);
+    float seed = timing.z;
+    pos += (vec3(hash(seed + frame), hash(seed * 1.7 + frame), hash(seed * 2.3 + frame)) - 0.5) * jitter;
+
+    float progress = age / life;
+    float fade = max(0.0, 1.0 - progress * progress); // quadratic fade for a nice tail
+    float flicker = 0.85 + hash(seed * 3.1 + frame) * 0.15;
+    if (motion.z > 0.0 && progress >= 0.25) {
+      flicker *= fract(time * motion.z + seed) < 0.45 ? 1.6 : 0.05;
+    }
+    // Transition from bright core colour towards the palette's fade colour
+    vColor = mix(tint, fadeTint, progress);
+    vAlpha = fade * flicker;
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = size * fade * (0.5 + hash(seed * 5.3 + frame) * 0.5) * viewportHeight * 0.5 / -mvPosition.z;
+  }
+`;
+
+const fragmentShader = `
+  uniform float opacity;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    float d = length(gl_PointCoord - 0.5) * 2.0;
+    float alpha = smoothstep(1.0, 0.2, d) * vAlpha * opacity;
+    if (alpha < 0.004) discard;
+    gl_FragColor = vec4(vColor, alpha);
+  }
+`;
+
+/**
+ * Where shells go: a launch area in front of the camera, turned to face it.
+ * `forward` points away from the viewer and `right` is screen right, both level.
+ */
+type Sky = {
+  origin: Vector3;
+  forward: Vector3;
+  right: Vector3;
+  azimuth: number;
+};
+
+const createSky = (): Sky => ({
+  origin: new Vector3(),
+  forward: new Vector3(-1, 0, 0),
+  right: new Vector3(0, 0, -1),
+  azimuth: Math.PI,
+});
+
+/** Turns the sky toward `azimuth` (radians around Y, from +X); `turn` of 1 snaps, 0 stays put. */
+function orientSky(
+  sky: Sky,
+  azimuth: number,
+  turn: number,
+  center: Vector3,
+  distance: number,
+  height: number
+) {
+  const difference = MathUtils.euclideanModulo(azimuth - sky.azimuth + Math.PI, Math.PI * 2) - Math.PI;
+  sky.azimuth += difference * turn;
+  sky.forward.set(Math.cos(sky.azimuth), 0, Math.sin(sky.azimuth));
+  sky.right.set(-sky.forward.z, 0, sky.forward.x);
+  sky.origin.copy(center).addScaledVector(sky.forward, distance).setY(center.y + height);
+}
+
+/* Shell types describe bursts facing the viewer: local x is screen right, z points back at the camera. */
+const toWorldVelocity = (
+  local: [number, number, number],
+  scale: number,
+  shell: ShellState,
+  out: Float32Array,
+  offset: number
+) => {
+  out[offset] = (-shell.forwardZ * local[0] - shell.forwardX * local[2]) * scale;
+  out[offset + 1] = local[1] * scale;
+  out[offset + 2] = (shell.forwardX * local[0] - shell.forwardZ * local[2]) * scale;
+};
+
+/** Turns velocity kept per 60 fps frame into the continuous decay rate the shader uses. */
+const dragRate = (drag: number) => -Math.log(drag) * 60;
+
+const pickPaletteFor = (energy: number, random = Math.random) =>
+  pickPalette(random() < energy ? BRIGHT_PALETTES : CALM_PALETTES, random);
+
+/* ─── particle buffers, uploaded only where shells write to them ─── */
+type Particles = {
+  geometry: BufferGeometry;
+  start: Float32Array;
+  velocity: Float32Array;
+  tint: Float32Array;
+  fadeTint: Float32Array;
+  timing: Float32Array;
+  motion: Float32Array;
+  size: Float32Array;
+};
+
+function createParticles(count: number): Particles {
+  const particles: Particles = {
+    geometry: new BufferGeometry(),
+    start: new Float32Array(count * 3),
+    velocity: new Float32Array(count * 3),
+    tint: new Float32Array(count * 3),
+    fadeTint: new Float32Array(count * 3),
+    timing: new Float32Array(count * 3),
+    motion: new Float32Array(count * 4),
+    size: new Float32Array(count),
+  };
+  // Not born yet: a negative lifetime keeps them hidden until a shell writes over them.
+  for (let i = 0; i < count; i++) particles.timing[i * 3 + 1] = -1;
+
+  const attributes: [string, Float32Array, number][] = [
+    ["position", particles.start, 3],
+    ["velocity", particles.velocity, 3],
+    ["tint", particles.tint, 3],
+    ["fadeTint", particles.fadeTint, 3],
+    ["timing", particles.timing, 3],
+    ["motion", particles.motion, 4],
+    ["size", particles.size, 1],
+  ];
+  for (const [name, array, itemSize] of attributes) {
+    particles.geometry.setAttribute(
+      name,
+      new BufferAttribute(array, itemSize).setUsage(DynamicDrawUsage)
+    );
+  }
+  return particles;
+}
+
+function createParticleMaterial(jitter: number) {
+  return new ShaderMaterial({
+    uniforms: {
+      time: { value: 0 },
+      viewportHeight: { value: 1 },
+      opacity: { value: 0 },
+      jitter: { value: jitter },
+    },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: AdditiveBlending,
+  });
+}
+
+/** Queues particles `first` to `first + count` for upload on the next render. */
+function markDirty({ geometry }: Particles, first: number, count: number) {
+  for (const attribute of Object.values(geometry.attributes)) {
+    if (attribute instanceof BufferAttribute) {
+      attribute.addUpdateRange(first * attribute.itemSize, count * attribute.itemSize);
+      attribute.needsUpdate = true;
+    }
+  }
+}
+
+/* Sound positions, reused so launches and bursts allocate nothing. */
+const soundFrom = new Vector3();
+const soundTo = new Vector3();
+
+const set3 = (out: Float32Array, index: number, x: number, y: number, z: number) => {
+  out[index * 3] = x;
+  out[index * 3 + 1] = y;
+  out[index * 3 + 2] = z;
+};
 
 /* ─── per-shell state ─── */
 type ShellState = {
+  index: number;
   active: boolean;
   phase: "rising" | "burst";
   x: number;
@@ -65,22 +297,36 @@ type ShellState = {
   riseY: number;
   riseVelocity: number;
   targetY: number;
-  burstAge: number;
-  palette: [number, number, number][];
+  /** Firework time at which the last of the shell's particles dies. */
+  endsAt: number;
+  /** The sky's level forward direction at launch, so the burst faces where the camera was. */
+  forwardX: number;
+  forwardZ: number;
+  palette: PaletteColor[];
+  /** Scales burst speed and lifetime; 1 is a normal shell. */
+  power: number;
+  type: ShellTypeName;
+  /** Random 0-1 value shared by the shell's stars, e.g. a ring's tilt. */
+  seed: number;
+  /** Seeded for scripted shells so a show bursts the same way every time. */
+  random: () => number;
 };
 
 type FireworkData = {
-  positions: Float32Array;
-  velocities: Float32Array;
-  colors: Float32Array;
-  sizes: Float32Array;
-  ages: Float32Array;
-  lifetimes: Float32Array;
+  /** Seconds of (clamped) frame time since mount; the shader's clock. */
+  time: number;
+  burst: Particles;
+  trail: Particles;
+  sky: Sky;
   shells: ShellState[];
+  shellTypes: ReadonlyArray<ShellTypeName>;
+  text: TextPoints;
+  sounds?: FireworkSounds;
 };
 
-function initShell(): ShellState {
+function initShell(index: number): ShellState {
   return {
+    index,
     active: false,
     phase: "rising",
     x: 0,
@@ -88,22 +334,152 @@ function initShell(): ShellState {
     riseY: 0,
     riseVelocity: 0,
     targetY: 0,
-    burstAge: 0,
-    palette: PALETTES[0],
+    endsAt: 0,
+    forwardX: -1,
+    forwardZ: 0,
+    palette: PALETTES.gold,
+    power: 1,
+    type: "peony",
+    seed: 0,
+    random: Math.random,
   };
 }
 
-function launchShell(shell: ShellState, baseOrigin: Vector3) {
+/** Writes the dots that follow a rising shell, which climb with it at its rise speed, and sounds the launch. */
+function launchTrail(shell: ShellState, data: FireworkData) {
+  const { trail } = data;
+  const first = shell.index * TRAIL_PARTICLES_PER_SHELL;
+  for (let t = 0; t < TRAIL_PARTICLES_PER_SHELL; t++) {
+    const i = first + t;
+    const brightness = 1 - (t / TRAIL_PARTICLES_PER_SHELL) * 0.7;
+    const trailOffset = (t / TRAIL_PARTICLES_PER_SHELL) * 1.5;
+    const [r, g, b] = TRAIL_COLOR;
+    set3(trail.start, i, shell.x, shell.riseY, shell.z);
+    set3(trail.velocity, i, 0, shell.riseVelocity, 0);
+    set3(trail.tint, i, r * brightness, g * brightness, b * brightness);
+    set3(trail.fadeTint, i, r * brightness, g * brightness, b * brightness);
+    set3(trail.timing, i, data.time, TRAIL_LIFETIME, shell.random() * 100);
+    trail.motion.set([0, 0, 0, trailOffset / shell.riseVelocity], i * 4);
+    trail.size[i] = TRAIL_SIZE * brightness;
+  }
+  markDirty(trail, first, TRAIL_PARTICLES_PER_SHELL);
+
+  data.sounds?.launch(
+    soundFrom.set(shell.x, shell.riseY, shell.z),
+    soundTo.set(shell.x, shell.targetY, shell.z),
+    (shell.targetY - shell.riseY) / shell.riseVelocity
+  );
+}
+
+/** Puts a shell `depth` beyond the sky's origin and `lateral` to the right of it. */
+function placeShell(shell: ShellState, sky: Sky, depth: number, lateral: number) {
+  const { origin, forward, right } = sky;
+  shell.x = origin.x + forward.x * depth + right.x * lateral;
+  shell.z = origin.z + forward.z * depth + right.z * lateral;
+  shell.forwardX = forward.x;
+  shell.forwardZ = forward.z;
+}
+
+/** Picks a random shell, or one that bursts at `target` when given, without sending it up yet. */
+function prepareShell(
+  shell: ShellState,
+  data: FireworkData,
+  energy?: number,
+  target?: Vector3
+) {
+  const baseOrigin = data.sky.origin;
   shell.active = true;
   shell.phase = "rising";
-  shell.x = baseOrigin.x - Math.random() * SPREAD_X; // always behind scene (negative X = farther from camera)
-  shell.z = baseOrigin.z + (Math.random() - 0.5) * SPREAD_Z; // spread wide left/right
+  placeShell(shell, data.sky, Math.random() * SPREAD_DEPTH, (Math.random() - 0.5) * SPREAD_WIDTH);
+  if (target) {
+    shell.x = target.x;
+    shell.z = target.z;
+  }
   shell.riseY = baseOrigin.y - 4; // start below
   shell.riseVelocity =
     SHELL_RISE_SPEED_MIN + Math.random() * (SHELL_RISE_SPEED_MAX - SHELL_RISE_SPEED_MIN);
-  shell.targetY = baseOrigin.y + Math.random() * 4;
-  shell.burstAge = 0;
-  shell.palette = pickPalette();
+  shell.targetY = target
+    ? Math.max(target.y, shell.riseY + SKY_CLICK_MIN_HEIGHT)
+    : baseOrigin.y + Math.random() * 4;
+  // Without text to spell, "text" shells are skipped rather than bursting into nothing.
+  const types =
+    data.text.length > 0 ? data.shellTypes : data.shellTypes.filter((type) => type !== "text");
+  shell.type = types.length > 0 ? pickShellType(types) : "peony";
+  shell.seed = Math.random();
+  shell.random = Math.random;
+  const preferred = SHELL_TYPES[shell.type].palettes;
+  shell.palette = preferred
+    ? pickPalette(preferred)
+    : energy === undefined
+      ? pickPalette()
+      : pickPaletteFor(energy);
+  shell.power = energy === undefined ? 1 : 0.7 + energy * 0.4;
+}
+
+/** Launches a random shell, or one that bursts at `target` when given. */
+function launchShell(
+  shell: ShellState,
+  data: FireworkData,
+  energy?: number,
+  target?: Vector3
+) {
+  prepareShell(shell, data, energy, target);
+  launchTrail(shell, data);
+}
+
+/** Launches a shell from a show's schedule so it bursts at its cue, `lead` seconds from now. */
+function launchScripted(
+  shell: ShellState,
+  data: FireworkData,
+  cue: ScheduledShell,
+  lead: number
+) {
+  const baseOrigin = data.sky.origin;
+  const random = seededRandom(cue.seed);
+  shell.active = true;
+  shell.phase = "rising";
+  placeShell(shell, data.sky, cue.depth * SPREAD_DEPTH, (cue.position * SPREAD_WIDTH) / 2);
+  shell.riseY = baseOrigin.y - 4;
+  shell.targetY = baseOrigin.y + cue.altitude * 4;
+  shell.riseVelocity = (shell.targetY - shell.riseY) / Math.max(lead, 0.1);
+  shell.type = cue.type;
+  shell.seed = random();
+  shell.random = random;
+  const preferred = SHELL_TYPES[cue.type].palettes;
+  shell.palette = cue.palette
+    ? PALETTES[cue.palette]
+    : pickPalette(preferred, random);
+  shell.power = cue.power;
+  launchTrail(shell, data);
+}
+
+/**
+ * Moves particle `from` along its path for `age` seconds, the same way the
+ * shader does, and writes where it ends up as the start of particle `to`.
+ */
+function advanceParticle(particles: Particles, from: number, age: number, to: number) {
+  const { start, velocity, motion } = particles;
+  const k = motion[from * 4];
+  const g = motion[from * 4 + 1];
+  const hasDrag = k > 0.0001;
+  const travel = hasDrag ? (1 - Math.exp(-k * age)) / k : age;
+  const decay = Math.exp(-k * age);
+  const [x, y, z] = start.subarray(from * 3, from * 3 + 3);
+  const [vx, vy, vz] = velocity.subarray(from * 3, from * 3 + 3);
+  set3(
+    start,
+    to,
+    x + vx * travel,
+    y + vy * travel + (hasDrag ? (g / k) * (age - travel) : 0.5 * g * age * age),
+    z + vz * travel
+  );
+  set3(
+    velocity,
+    to,
+    vx * decay,
+    hasDrag ? (vy - g / k) * decay + g / k : vy + g * age,
+    vz * decay
+  );
 }
 
 function burstShell(
@@ -111,84 +487,249 @@ function burstShell(
   shell: ShellState,
   data: FireworkData
 ) {
+  const { burst, time } = data;
   const burstStart = shellIndex * PARTICLES_PER_SHELL;
-  const palette = shell.palette;
+  const { palette, random } = shell;
+  const core = palette[0];
+  const tail = palette[palette.length - 1];
+  const type = SHELL_TYPES[shell.type];
+  const { stars, children } = starLayout(type, PARTICLES_PER_SHELL);
+  const text = shell.type === "text" ? sampleTextPoints(data.text, stars) : [];
+  const velocity: [number, number, number] = [0, 0, 0];
+  const baseLifetime = (type.lifetime ?? 1) * (0.8 + shell.power * 0.2);
+  const drag = dragRate(type.drag ?? DRAG);
+  const gravity = GRAVITY * (type.gravity ?? 1);
+  const strobe = type.strobe ?? 0;
+  let endsAt = time;
+
   for (let p = 0; p < PARTICLES_PER_SHELL; p++) {
     const i = burstStart + p;
-    const idx3 = i * 3;
 
-    // spherical burst
-    const theta = Math.random() * Math.PI * 2;
-    const phi = Math.acos(Math.random() * 2 - 1);
-    const speed = BURST_SPEED_MIN + Math.random() * (BURST_SPEED_MAX - BURST_SPEED_MIN);
+    set3(burst.start, i, shell.x, shell.riseY, shell.z);
+    set3(burst.tint, i, core[0], core[1], core[2]);
+    set3(burst.fadeTint, i, tail[0], tail[1], tail[2]);
+    burst.motion.set([drag, gravity, strobe, 0], i * 4);
+    burst.size[i] = SPARKLE_SIZE * (0.6 + random() * 0.8);
+    const lifetime =
+      (BURST_LIFETIME_MIN + random() * (BURST_LIFETIME_MAX - BURST_LIFETIME_MIN)) *
+      baseLifetime;
+    const seed = random() * 100;
+
+    if (p < stars) {
+      type.velocity(velocity, { index: p, count: stars, seed: shell.seed, text, random });
+      toWorldVelocity(velocity, shell.power, shell, burst.velocity, i * 3);
+      // Splitting stars die where their children are born.
+      const life = type.split ? lifetime * type.split.at : lifetime;
+      set3(burst.timing, i, time, life, seed);
+      endsAt = Math.max(endsAt, time + life);
+      continue;
+    }
+
+    const parent = burstStart + Math.floor((p - stars) / Math.max(1, children));
+    if (children === 0 || parent >= burstStart + stars) {
+      // Left over when the budget does not divide evenly.
+      set3(burst.timing, i, time, -1, seed);
+      continue;
+    }
+    const parentLife = burst.timing[parent * 3 + 1];
+
+    if (type.split) {
+      // Born where and when the parent splits, flung out in a new direction.
+      advanceParticle(burst, parent, parentLife, i);
+      const angle = random() * Math.PI * 2;
+      burst.velocity[i * 3] = burst.velocity[i * 3] * 0.3 + (random() - 0.5) * SPLIT_SPEED;
+      burst.velocity[i * 3 + 1] = burst.velocity[i * 3 + 1] * 0.3 + Math.sin(angle) * SPLIT_SPEED;
+      burst.velocity[i * 3 + 2] = burst.velocity[i * 3 + 2] * 0.3 + Math.cos(angle) * SPLIT_SPEED;
+      const life = lifetime * (1 - type.split.at);
+      set3(burst.timing, i, time + parentLife, life, seed);
+      endsAt = Math.max(endsAt, time + parentLife + life);
+      continue;
+    }
+
+    // Trailing spark: follows its star's path a little behind it, dimmer.
+    const step = ((p - stars) % children) + 1;
+    const dim = 1 - step / (children + 1);
+    burst.velocity.copyWithin(i * 3, parent * 3, parent * 3 + 3);
+    set3(burst.tint, i, core[0] * dim, core[1] * dim, core[2] * dim);
+    set3(burst.fadeTint, i, tail[0] * dim, tail[1] * dim, tail[2] * dim);
+    burst.motion[i * 4 + 3] = step * TRAIL_SPACING;
+    set3(burst.timing, i, time, parentLife, seed);
+  }
+
+  shell.endsAt = endsAt;
+  markDirty(burst, burstStart, PARTICLES_PER_SHELL);
+}
 
-    data.positions[idx3] = shell.x;
-    data.positions[idx3 + 1] = shell.riseY;
-    data.positions[idx3 + 2] = shell.z;
+/** Switches a shell to its burst phase and hides its trail. */
+function explodeShell(shellIndex: number, shell: ShellState, data: FireworkData) {
+  shell.phase = "burst";
+  burstShell(shellIndex, shell, data);
+  data.sounds?.burst(soundFrom.set(shell.x, shell.riseY, shell.z), {
+    size: shell.power,
+    crackle: SHELL_TYPES[shell.type].crackle ?? false,
+  });
 
-    data.velocities[idx3] = Math.sin(phi) * Math.cos(theta) * speed;
-    data.velocities[idx3 + 1] = Math.sin(phi) * Math.sin(theta) * speed * 0.6 + Math.cos(phi) * speed * 0.5;
-    data.velocities[idx3 + 2] = Math.sin(phi) * Math.sin(theta + Math.PI / 2) * speed;
+  const trailBase = shellIndex * TRAIL_PARTICLES_PER_SHELL;
+  for (let t = 0; t < TRAIL_PARTICLES_PER_SHELL; t++) {
+    data.trail.timing[(trailBase + t) * 3 + 1] = -1;
+  }
+  markDirty(data.trail, trailBase, TRAIL_PARTICLES_PER_SHELL);
+}
 
-    const c = palette[Math.floor(Math.random() * palette.length)];
-    data.colors[idx3] = c[0];
-    data.colors[idx3 + 1] = c[1];
-    data.colors[idx3 + 2] = c[2];
+/**
+ * Makes a beat visible: bursts the highest rising shells right now, or a
+ * fresh one at full height if none are far enough up.
+ */
+function burstOnBeat(data: FireworkData, beat: MusicPulse) {
+  const baseOrigin = data.sky.origin;
+  const wanted = 1 + Math.round(beat.strength * 2);
+  const rising = data.shells
+    .map((shell, index) => ({ shell, index }))
+    .filter(
+      ({ shell }) =>
+        shell.active &&
+        shell.phase === "rising" &&
+        (shell.riseY - (baseOrigin.y - 4)) / (shell.targetY - (baseOrigin.y - 4)) >=
+          MIN_DETONATE_PROGRESS
+    )
+    .sort((a, b) => b.shell.riseY - a.shell.riseY)
+    .slice(0, wanted);
+
+  if (rising.length === 0) {
+    const index = data.shells.findIndex((shell) => !shell.active);
+    if (index === -1) {
+      return;
+    }
+    const shell = data.shells[index];
+    // Already at height, so it gets no rising trail or launch whistle.
+    prepareShell(shell, data, beat.energy);
+    shell.riseY = shell.targetY;
+    rising.push({ shell, index });
+  }
 
-    data.sizes[i] = SPARKLE_SIZE * (0.6 + Math.random() * 0.8);
-    data.lifetimes[i] = BURST_LIFETIME_MIN + Math.random() * (BURST_LIFETIME_MAX - BURST_LIFETIME_MIN);
-    data.ages[i] = 0;
+  for (const { shell, index } of rising) {
+    shell.power = 0.8 + beat.strength * 0.8;
+    if (beat.strength >= STRONG_BEAT) {
+      shell.palette = pickPaletteFor(1);
+    }
+    explodeShell(index, shell, data);
   }
 }
 
-export function Fireworks({ isActive, origin = [0, 5, -14] }: FireworksProps) {
-  const geometryRef = useRef<BufferGeometry>(null);
-  const materialRef = useRef<PointsMaterial>(null);
+export function Fireworks({
+  isActive,
+  center = [0, 1, 0],
+  distance = 10,
+  height = 5,
+  pulse,
+  shellTypes = SHELL_TYPE_NAMES,
+  text = "",
+  show,
+  sounds,
+}: FireworksProps) {
   const dataRef = useRef<FireworkData | null>(null);
-  const baseOrigin = useMemo(() => new Vector3(...origin), [origin]);
+  const skyCenter = useMemo(() => new Vector3(...center), [center]);
   const launchTimerRef = useRef(0);
   const hasExplodedOnceRef = useRef(false);
+  // Show playback: seconds since the show started, and the next scheduled shell.
+  const showTimeRef = useRef(0);
+  const nextCueRef = useRef(0);
+  const isShowPlayingRef = useRef(false);
+  const listenerForward = useMemo(() => new Vector3(), []);
+  const lastSkyClickRef = useRef(-Infinity);
+  const camera = useThree((state) => state.camera);
+  const canvas = useThree((state) => state.gl.domElement);
+  const skyRay = useMemo(
+    () => ({
+      raycaster: new Raycaster(),
+      pointer: new Vector2(),
+      plane: new Plane(),
+      hit: new Vector3(),
+    }),
+    []
+  );
 
-  // secondary points for trails
-  const trailGeomRef = useRef<BufferGeometry>(null);
-  const trailMatRef = useRef<PointsMaterial>(null);
+  const burst = useMemo(() => createParticles(TOTAL_BURST), []);
+  const trail = useMemo(() => createParticles(TOTAL_TRAIL), []);
+  const burstMaterial = useMemo(() => createParticleMaterial(0), []);
+  const trailMaterial = useMemo(() => createParticleMaterial(TRAIL_JITTER), []);
+
+  useEffect(
+    () => () => {
+      burst.geometry.dispose();
+      trail.geometry.dispose();
+      burstMaterial.dispose();
+      trailMaterial.dispose();
+    },
+    [burst, trail, burstMaterial, trailMaterial]
+  );
 
   if (!dataRef.current) {
-    const shells: ShellState[] = [];
-    for (let s = 0; s < MAX_SHELLS; s++) shells.push(initShell());
-
     dataRef.current = {
-      positions: new Float32Array(TOTAL_PARTICLES * 3),
-      velocities: new Float32Array(TOTAL_PARTICLES * 3),
-      colors: new Float32Array(TOTAL_PARTICLES * 3),
-      sizes: new Float32Array(TOTAL_PARTICLES),
-      ages: new Float32Array(TOTAL_PARTICLES),
-      lifetimes: new Float32Array(TOTAL_PARTICLES),
-      shells,
+      time: 0,
+      burst,
+      trail,
+      sky: createSky(),
+      shells: Array.from({ length: MAX_SHELLS }, (_, index) => initShell(index)),
+      shellTypes,
+      text: [],
     };
+  }
+
+  useEffect(() => {
+    const data = dataRef.current!;
+    data.shellTypes = shellTypes.length > 0 ? shellTypes : SHELL_TYPE_NAMES;
+    data.text = text.trim() ? textPoints(text.trim()) : [];
+    data.sounds = sounds;
+  }, [shellTypes, text, sounds]);
+
+  const schedule = useMemo(
+    () => (show ? scheduleShow(show, shellTypes.length > 0 ? shellTypes : SHELL_TYPE_NAMES) : []),
+    [show, shellTypes]
+  );
 
-    // initialise all particles offscreen
-    for (let i = 0; i < TOTAL_PARTICLES; i++) {
-      const idx3 = i * 3;
-      dataRef.current.positions[idx3] = 0;
-      dataRef.current.positions[idx3 + 1] = -100;
-      dataRef.current.positions[idx3 + 2] = 0;
-      dataRef.current.ages[i] = 999;
-      dataRef.current.lifetimes[i] = 1;
-      dataRef.current.sizes[i] = 0;
+  // Clicking empty sky launches a shell that bursts where the click lands on a
+  // vertical plane through the launch area, facing the camera.
+  useExperienceEvent("skyClick", ({ clientX, clientY }) => {
+    const data = dataRef.current;
+    if (!isActive || !data || data.time - lastSkyClickRef.current < SKY_CLICK_COOLDOWN) {
+      return;
     }
-  }
+    const shell = data.shells.find((candidate) => !candidate.active);
+    if (!shell) {
+      return;
+    }
+    const { raycaster, pointer, plane, hit } = skyRay;
+    const rect = canvas.getBoundingClientRect();
+    pointer.set(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    raycaster.setFromCamera(pointer, camera);
+    plane.setFromNormalAndCoplanarPoint(data.sky.forward, data.sky.origin);
+    if (!raycaster.ray.intersectPlane(plane, hit)) {
+      return;
+    }
+    lastSkyClickRef.current = data.time;
+    launchShell(shell, data, undefined, hit);
+  });
 
-  // On first activation, do a big volley
+  // On first activation, start the show from the top, or do a big volley
   useEffect(() => {
     if (isActive && !hasExplodedOnceRef.current) {
       hasExplodedOnceRef.current = true;
+      showTimeRef.current = 0;
+      nextCueRef.current = 0;
+      isShowPlayingRef.current = schedule.length > 0;
+      if (isShowPlayingRef.current) {
+        return;
+      }
       const data = dataRef.current!;
       // Launch several shells immediately
       let launched = 0;
       for (let s = 0; s < MAX_SHELLS && launched < 5; s++) {
         if (!data.shells[s].active) {
-          launchShell(data.shells[s], baseOrigin);
+          launchShell(data.shells[s], data);
           launched++;
         }
       }
@@ -196,223 +737,121 @@ export function Fireworks({ isActive, origin = [0, 5, -14] }: FireworksProps) {
     if (!isActive) {
       hasExplodedOnceRef.current = false;
     }
-  }, [isActive, baseOrigin]);
+  }, [isActive, schedule]);
 
-  useFrame((_, rawDelta) => {
-    const geometry = geometryRef.current;
-    const material = materialRef.current;
-    const trailGeom = trailGeomRef.current;
-    const trailMat = trailMatRef.current;
+  useFrame(({ camera, size, viewport }, rawDelta) => {
     const data = dataRef.current;
-    if (!geometry || !material || !data || !trailGeom || !trailMat) return;
+    if (!data) return;
 
     const delta = Math.min(rawDelta, 0.05); // clamp to avoid huge jumps
+    data.time += delta;
+
+    const view = camera.getWorldDirection(listenerForward);
+    sounds?.listen(camera.position, view, camera.up);
+
+    // Keep the launch area in front of the viewer: follow the camera's heading
+    // smoothly while the show is on, and jump straight there while it is hidden.
+    if (view.x * view.x + view.z * view.z > 1e-6) {
+      orientSky(
+        data.sky,
+        Math.atan2(view.z, view.x),
+        isActive ? 1 - Math.exp(-SKY_TURN_RATE * delta) : 1,
+        skyCenter,
+        distance,
+        height
+      );
+    }
 
-    const posAttr = geometry.getAttribute("position") as BufferAttribute;
-    const colAttr = geometry.getAttribute("color") as BufferAttribute;
-    const trailPosAttr = trailGeom.getAttribute("position") as BufferAttribute;
-    const trailColAttr = trailGeom.getAttribute("color") as BufferAttribute;
+    for (const material of [burstMaterial, trailMaterial]) {
+      material.uniforms.time.value = data.time;
+      material.uniforms.viewportHeight.value = size.height * viewport.dpr;
+    }
+    const burstOpacity = burstMaterial.uniforms.opacity;
+    const trailOpacity = trailMaterial.uniforms.opacity;
 
     /* ── fade out when inactive ── */
     if (!isActive) {
-      material.opacity = MathUtils.damp(material.opacity, 0, 4, delta);
-      trailMat.opacity = MathUtils.damp(trailMat.opacity, 0, 4, delta);
-      if (material.opacity < 0.01) {
+      burstOpacity.value = MathUtils.damp(burstOpacity.value, 0, 4, delta);
+      trailOpacity.value = MathUtils.damp(trailOpacity.value, 0, 4, delta);
+      if (burstOpacity.value < 0.01) {
         // reset shells
         for (const shell of data.shells) shell.active = false;
       }
       return;
     }
 
-    material.opacity = MathUtils.damp(material.opacity, 1, 3, delta);
-    trailMat.opacity = MathUtils.damp(trailMat.opacity, 0.7, 3, delta);
+    burstOpacity.value = MathUtils.damp(burstOpacity.value, 1, 3, delta);
+    trailOpacity.value = MathUtils.damp(trailOpacity.value, 0.7, 3, delta);
+
+    /* ── play the show: launch each shell so it bursts on its cue ── */
+    if (isShowPlayingRef.current) {
+      showTimeRef.current += delta;
+      const showTime = showTimeRef.current;
+      while (nextCueRef.current < schedule.length) {
+        const cue = schedule[nextCueRef.current];
+        if (cue.burstAt - SHOW_RISE_TIME > showTime) break;
+        const shell = data.shells.find((candidate) => !candidate.active);
+        // Every shell is in the air: the cue waits for one to come free.
+        if (!shell) break;
+        launchScripted(shell, data, cue, cue.burstAt - showTime);
+        nextCueRef.current++;
+      }
+      if (nextCueRef.current >= schedule.length) {
+        const ending = show?.then ?? "random";
+        const lastBurst = schedule[schedule.length - 1].burstAt;
+        if (ending === "random") {
+          isShowPlayingRef.current = false;
+          launchTimerRef.current = 0;
+        } else if (ending === "loop" && showTime >= lastBurst + SHOW_LOOP_PAUSE) {
+          showTimeRef.current = 0;
+          nextCueRef.current = 0;
+        }
+      }
+    }
 
-    /* ── launch new shells on a timer ── */
+    /* ── launch new shells on a timer, or with the music ── */
+    const beat = isShowPlayingRef.current ? undefined : pulse?.();
+    const launchInterval = beat
+      ? MUSIC_LAUNCH_INTERVAL_QUIET -
+        (MUSIC_LAUNCH_INTERVAL_QUIET - MUSIC_LAUNCH_INTERVAL_LOUD) * beat.energy
+      : LAUNCH_INTERVAL;
     launchTimerRef.current += delta;
-    if (launchTimerRef.current >= LAUNCH_INTERVAL) {
+    if (!isShowPlayingRef.current && launchTimerRef.current >= launchInterval) {
       launchTimerRef.current = 0;
-      for (let s = 0; s < MAX_SHELLS; s++) {
-        if (!data.shells[s].active) {
-          launchShell(data.shells[s], baseOrigin);
-          break;
-        }
+      const shell = data.shells.find((candidate) => !candidate.active);
+      if (shell) {
+        launchShell(shell, data, beat?.energy);
       }
     }
+    if (beat?.onset) {
+      burstOnBeat(data, beat);
+    }
 
-    /* ── update each shell ── */
+    /* ── update each shell; its particles move on the GPU ── */
     for (let s = 0; s < MAX_SHELLS; s++) {
       const shell = data.shells[s];
       if (!shell.active) continue;
 
       if (shell.phase === "rising") {
-        // Update trail particles for this shell
-        const trailBase = s * TRAIL_PARTICLES_PER_SHELL;
-        for (let t = 0; t < TRAIL_PARTICLES_PER_SHELL; t++) {
-          const ti = TOTAL_BURST + trailBase + t;
-          const ti3 = ti * 3;
-          // Trail particles spread along the rise path
-          const trailOffset = (t / TRAIL_PARTICLES_PER_SHELL) * 1.5;
-          data.positions[ti3] = shell.x + (Math.random() - 0.5) * 0.15;
-          data.positions[ti3 + 1] = shell.riseY - trailOffset + (Math.random() - 0.5) * 0.1;
-          data.positions[ti3 + 2] = shell.z + (Math.random() - 0.5) * 0.15;
-
-          const brightness = 1 - (t / TRAIL_PARTICLES_PER_SHELL) * 0.7;
-          data.colors[ti3] = 1 * brightness;
-          data.colors[ti3 + 1] = 0.85 * brightness;
-          data.colors[ti3 + 2] = 0.4 * brightness;
-          data.sizes[ti] = TRAIL_SIZE * brightness;
-        }
-
         // Move the shell upward
         shell.riseY += shell.riseVelocity * delta;
 
         if (shell.riseY >= shell.targetY) {
-          shell.phase = "burst";
-          shell.burstAge = 0;
-          burstShell(s, shell, data);
-
-          // Hide trail particles
-          const trailBase2 = s * TRAIL_PARTICLES_PER_SHELL;
-          for (let t = 0; t < TRAIL_PARTICLES_PER_SHELL; t++) {
-            const ti = TOTAL_BURST + trailBase2 + t;
-            const ti3 = ti * 3;
-            data.positions[ti3 + 1] = -100;
-            data.sizes[ti] = 0;
-          }
-        }
-      } else {
-        // burst phase
-        shell.burstAge += delta;
-        const burstStart = s * PARTICLES_PER_SHELL;
-        let allDead = true;
-
-        for (let p = 0; p < PARTICLES_PER_SHELL; p++) {
-          const i = burstStart + p;
-          const idx3 = i * 3;
-          data.ages[i] += delta;
-          const age = data.ages[i];
-          const life = data.lifetimes[i];
-
-          if (age > life) {
-            // dead particle - hide
-            data.positions[idx3 + 1] = -100;
-            data.colors[idx3] = 0;
-            data.colors[idx3 + 1] = 0;
-            data.colors[idx3 + 2] = 0;
-            data.sizes[i] = 0;
-            continue;
-          }
-
-          allDead = false;
-
-          // Apply drag
-          data.velocities[idx3] *= DRAG;
-          data.velocities[idx3 + 1] *= DRAG;
-          data.velocities[idx3 + 2] *= DRAG;
-
-          // Apply gravity
-          data.velocities[idx3 + 1] += GRAVITY * delta;
-
-          // Integrate position
-          data.positions[idx3] += data.velocities[idx3] * delta;
-          data.positions[idx3 + 1] += data.velocities[idx3 + 1] * delta;
-          data.positions[idx3 + 2] += data.velocities[idx3 + 2] * delta;
-
-          // Fade colour and size
-          const t = age / life;
-          const fade = Math.max(0, 1 - t * t); // quadratic fade for a nice tail
-          const flicker = 0.85 + Math.random() * 0.15; // subtle sparkle
-
-          const palette = shell.palette;
-          // Transition from bright core colour towards dim warm colour
-          const cIdx = Math.min(Math.floor(t * palette.length), palette.length - 1);
-          const c = palette[cIdx];
-          data.colors[idx3] = c[0] * fade * flicker;
-          data.colors[idx3 + 1] = c[1] * fade * flicker;
-          data.colors[idx3 + 2] = c[2] * fade * flicker;
-
-          data.sizes[i] = SPARKLE_SIZE * fade * (0.5 + Math.random() * 0.5);
-        }
-
-        if (allDead) {
-          shell.active = false;
+          explodeShell(s, shell, data);
         }
+      } else if (data.time > shell.endsAt) {
+        shell.active = false;
       }
     }
-
-    /* ── upload to GPU ── */
-    // Burst particles (first TOTAL_BURST)
-    const burstPos = data.positions.subarray(0, TOTAL_BURST * 3);
-    const burstCol = data.colors.subarray(0, TOTAL_BURST * 3);
-    posAttr.array.set(burstPos);
-    colAttr.array.set(burstCol);
-    posAttr.needsUpdate = true;
-    colAttr.needsUpdate = true;
-
-    // Trail particles
-    const trailStart = TOTAL_BURST * 3;
-    const trailPos = data.positions.subarray(trailStart, trailStart + TOTAL_TRAIL * 3);
-    const trailCol = data.colors.subarray(trailStart, trailStart + TOTAL_TRAIL * 3);
-    trailPosAttr.array.set(trailPos);
-    trailColAttr.array.set(trailCol);
-    trailPosAttr.needsUpdate = true;
-    trailColAttr.needsUpdate = true;
   });
 
-  const burstPositions = useMemo(() => new Float32Array(TOTAL_BURST * 3), []);
-  const burstColors = useMemo(() => new Float32Array(TOTAL_BURST * 3), []);
-  const trailPositions = useMemo(() => new Float32Array(TOTAL_TRAIL * 3), []);
-  const trailColors = useMemo(() => new Float32Array(TOTAL_TRAIL * 3), []);
-
   return (
     <group>
       {/* Main burst particles */}
-      <points frustumCulled={false}>
-        <bufferGeometry ref={geometryRef}>
-          <bufferAttribute
-            attach="attributes-position"
-            args={[burstPositions, 3]}
-          />
-          <bufferAttribute
-            attach="attributes-color"
-            args={[burstColors, 3]}
-          />
-        </bufferGeometry>
-        <pointsMaterial
-          ref={materialRef}
-          size={SPARKLE_SIZE}
-          transparent
-          vertexColors
-          depthWrite={false}
-          opacity={0}
-          sizeAttenuation
-          blending={AdditiveBlending}
-        />
-      </points>
+      <points frustumCulled={false} geometry={burst.geometry} material={burstMaterial} />
 
       {/* Rising trail particles */}
-      <points frustumCulled={false}>
-        <bufferGeometry ref={trailGeomRef}>
-          <bufferAttribute
-            attach="attributes-position"
-            args={[trailPositions, 3]}
-          />
-          <bufferAttribute
-            attach="attributes-color"
-            args={[trailColors, 3]}
-          />
-        </bufferGeometry>
-        <pointsMaterial
-          ref={trailMatRef}
-          size={TRAIL_SIZE}
-          transparent
-          vertexColors
-          depthWrite={false}
-          opacity={0}
-          sizeAttenuation
-          blending={AdditiveBlending}
-        />
-      </points>
+      <points frustumCulled={false} geometry={trail.geometry} material={trailMaterial} />
     </group>
   );
 }
@@ -0,0 +1,40 @@
+import { useFrame } from "@react-three/fiber";
+import { useRef } from "react";
+import { DoubleSide } from "three";
+import type { MeshBasicMaterial } from "three";
+import type { Vec3 } from "../scene/manifest";
+
+type FocusRingProps = {
+  position: Vec3;
+  radius: number;
+  color: string;
+};
+
+/** A pulsing ring on the table around the object that has keyboard focus. */
+export function FocusRing({ position, radius, color }: FocusRingProps) {
+  const materialRef = useRef<MeshBasicMaterial>(null);
+
+  useFrame(({ clock }) => {
+    if (materialRef.current) {
+      materialRef.current.opacity = 0.55 + Math.sin(clock.elapsedTime * 4) * 0.3;
+    }
+  });
+
+  return (
+    <mesh
+      position={[position[0], position[1] + 0.01, position[2]]}
+      rotation={[-Math.PI / 2, 0, 0]}
+      raycast={() => null}
+    >
+      <ringGeometry args={[radius * 0.88, radius, 48]} />
+      <meshBasicMaterial
+        ref={materialRef}
+        color={color}
+        side={DoubleSide}
+        transparent
+        depthWrite={false}
+        toneMapped={false}
+      />
+    </mesh>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import type { SceneManifest } from "../scene/manifest";
+import { createGreetingLink } from "../scene/greetingLink";
+import { THEMES } from "../scene/themes";
+import type { ThemeName } from "../scene/themes";
+
+type GreetingLinkGeneratorProps = {
+  manifest: SceneManifest;
+};
+
+/** Small authoring form, opened with `#generate`, that builds a personalized link. */
+export function GreetingLinkGenerator({ manifest }: GreetingLinkGeneratorProps) {
+  const [name, setName] = useState(manifest.recipient.name);
+  const [lines, setLines] = useState(manifest.intro.lines.join("\n"));
+  const [theme, setTheme] = useState<ThemeName>(manifest.theme ?? "classic");
+  const [frames, setFrames] = useState(() => manifest.frames.map((frame) => frame.id));
+  const [letters, setLetters] = useState(() => manifest.letters.map((_, index) => index));
+  const [link, setLink] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void createGreetingLink({
+      name,
+      lines: lines.split("\n"),
+      theme,
+      frames,
+      letters,
+    }).then((next) => {
+      if (!cancelled) {
+        setLink(next);
+        setCopied(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [name, lines, theme, frames, letters]);
+
+  const toggle = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter((entry) => entry !== item) : [...list, item];
+
+  const copyLink = () => {
+    void navigator.clipboard
+      .writeText(link)
+      .then(() => setCopied(true))
+      .catch(() => setCopied(false));
+  };
+
+  return (
+    <div className="link-generator">
+      <h1 className="link-generator-title">[ Generate a greeting link ]</h1>
+      <label className="link-generator-field">
+        <span>Recipient name</span>
+        <input value={name} onChange={(event) => setName(event.target.value)} />
+      </label>
+      <label className="link-generator-field">
+        <span>Intro lines (one per line, {"{name}"} is replaced)</span>
+        <textarea
+          rows={8}
+          value={lines}
+          onChange={(event) => setLines(event.target.value)}
+        />
+      </label>
+      <label className="link-generator-field">
+        <span>Theme</span>
+        <select
+          value={theme}
+          onChange={(event) => setTheme(event.target.value as ThemeName)}
+        >
+          {Object.keys(THEMES).map((themeName) => (
+            <option key={themeName} value={themeName}>
+              {themeName}
+            </option>
+          ))}
+        </select>
+      </label>
+      <fieldset className="link-generator-field">
+        <legend>Frames</legend>
+        {manifest.frames.map((frame) => (
+          <label key={frame.id} className="link-generator-check">
+            <input
+              type="checkbox"
+              checked={frames.includes(frame.id)}
+              onChange={() => setFrames((current) => toggle(current, frame.id))}
+            />
+            {frame.id}
+          </label>
+        ))}
+      </fieldset>
+      <fieldset className="link-generator-field">
+        <legend>Letters</legend>
+        {manifest.letters.map((letter, index) => (
+          <label key={`${letter.image}-${index}`} className="link-generator-check">
+            <input
+              type="checkbox"
+              checked={letters.includes(index)}
+              onChange={() => setLetters((current) => toggle(current, index))}
+            />
+            {letter.image}
+          </label>
+        ))}
+      </fieldset>
+      <div className="link-generator-output">
+        <input readOnly value={link} onFocus={(event) => event.target.select()} />
+        <button type="button" onClick={copyLink} disabled={!link}>
+          {copied ? "[ Copied ]" : "[ Copy ]"}
+        </button>
+        <a href={link} target="_blank" rel="noreferrer">
+          [ Open ]
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+import type { Announcer } from "../a11y/announcer";
+
+/** Reads announcements to screen readers without showing anything. */
+export function LiveRegion({ announcer }: { announcer: Announcer }) {
+  const message = useSyncExternalStore(announcer.subscribe, announcer.message);
+
+  return (
+    <div className="visually-hidden" role="status" aria-live="polite" aria-atomic="true">
+      {message}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { Component } from "react";
+import type { ReactNode } from "react";
+import { SceneErrorOverlay } from "./SceneErrorOverlay";
+
+type SceneErrorBoundaryProps = {
+  children: ReactNode;
+};
+
+type SceneErrorBoundaryState = {
+  error: Error | null;
+};
+
+/**
+ * Catches errors thrown while loading or rendering the 3D scene (a texture or
+ * model that fails to load, for instance) so they show up as a readable
+ * message instead of an empty canvas.
+ */
+export class SceneErrorBoundary extends Component<
+  SceneErrorBoundaryProps,
+  SceneErrorBoundaryState
+> {
+  state: SceneErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): SceneErrorBoundaryState {
+    return { error: error instanceof Error ? error : new Error(String(error)) };
+  }
+
+  render() {
+    const { error } = this.state;
+    if (error) {
+      return (
+        <SceneErrorOverlay
+          title="[ The scene failed to render ]"
+          issues={[{ path: error.name, message: error.message }]}
+        />
+      );
+    }
+    return this.props.children;
+  }
+}
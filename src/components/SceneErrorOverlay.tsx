@@ -0,0 +1,44 @@
+import type { ManifestIssue } from "../scene/validateManifest";
+
+type SceneErrorOverlayProps = {
+  title: string;
+  issues: ReadonlyArray<ManifestIssue>;
+  /** When set the overlay can be closed, used for non-fatal warnings. */
+  onDismiss?: () => void;
+};
+
+export function SceneErrorOverlay({ title, issues, onDismiss }: SceneErrorOverlayProps) {
+  // Recipients only ever see the short message; the issue list is for authors.
+  if (!import.meta.env.DEV) {
+    if (onDismiss) {
+      return null;
+    }
+    return (
+      <div className="scene-error-overlay" role="alert">
+        <h1 className="scene-error-title">[ This greeting could not be loaded ]</h1>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`scene-error-overlay${onDismiss ? " scene-error-overlay--warning" : ""}`}
+      role="alert"
+    >
+      <h1 className="scene-error-title">{title}</h1>
+      <ul className="scene-error-list">
+        {issues.map((issue, index) => (
+          <li key={`${issue.path}-${index}`} className="scene-error-item">
+            <code className="scene-error-path">{issue.path}</code>
+            <span>{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+      {onDismiss && (
+        <button type="button" className="scene-error-dismiss" onClick={onDismiss}>
+          [ Continue anyway ]
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useId, useRef } from "react";
+import type { TableObjectItem } from "../a11y/tableObjects";
+import { useInputAction } from "../input/inputContext";
+
+type SceneNavigatorProps = {
+  items: ReadonlyArray<TableObjectItem>;
+  /** The object currently picked up, if any. */
+  activeKey: string | null;
+  onFocusChange: (key: string | null) => void;
+  onActivate: (item: TableObjectItem) => void;
+};
+
+/**
+ * A button per table object, so the scene can be reached with Tab and read
+ * by screen readers. The buttons stay out of sight until one has focus; the
+ * 3D focus ring marks the object itself. Enter picks an object up, and next
+ * and back move between objects while nothing is in hand.
+ */
+export function SceneNavigator({ items, activeKey, onFocusChange, onActivate }: SceneNavigatorProps) {
+  const listRef = useRef<HTMLUListElement>(null);
+  const hintId = useId();
+
+  const buttons = () => [...(listRef.current?.querySelectorAll("button") ?? [])];
+  const focusedIndex = () => buttons().findIndex((button) => button === document.activeElement);
+
+  const move = (step: number) => {
+    const index = focusedIndex();
+    if (index === -1 || activeKey !== null) {
+      return;
+    }
+    const all = buttons();
+    all[(index + step + all.length) % all.length]?.focus();
+  };
+  useInputAction("next", () => move(1));
+  useInputAction("back", () => move(-1));
+
+  // Keep focus on whatever is in hand as next and back move along the table.
+  useEffect(() => {
+    if (activeKey === null || !listRef.current?.contains(document.activeElement)) {
+      return;
+    }
+    const index = items.findIndex((item) => item.key === activeKey);
+    listRef.current.querySelectorAll("button")[index]?.focus();
+  }, [activeKey, items]);
+
+  return (
+    <nav className="scene-navigator" aria-label="Table objects">
+      {/* Read after each button's label, so focusing one says what Enter does. */}
+      <span id={`${hintId}-pick-up`} className="visually-hidden">
+        Press Enter to pick it up.
+      </span>
+      <span id={`${hintId}-read`} className="visually-hidden">
+        Press Enter to read.
+      </span>
+      <ul ref={listRef}>
+        {items.map((item) => (
+          <li key={item.key}>
+            <button
+              type="button"
+              aria-pressed={item.key === activeKey}
+              aria-describedby={`${hintId}-${item.kind === "letters" ? "read" : "pick-up"}`}
+              onFocus={() => onFocusChange(item.key)}
+              onBlur={() => onFocusChange(null)}
+              onClick={() => onActivate(item)}
+            >
+              {item.label}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,218 @@
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Group,
+  ShaderMaterial,
+  Vector3,
+} from "three";
+import type { Points } from "three";
+
+type SmokePlumeProps = {
+  /** A plume starts each time this turns true, e.g. when a flame goes out. */
+  active: boolean;
+  /** Breath strength from 0 to 1; pushes the smoke away from the camera. */
+  breath?: () => number;
+  /** How long the plume keeps emitting, in seconds. */
+  duration?: number;
+  color?: [number, number, number];
+};
+
+/* ─── tuning knobs ─── */
+const PARTICLE_COUNT = 70;
+const EMIT_RATE = 40;            // particles per second right after the flame dies
+const LIFETIME_MIN = 2.2;
+const LIFETIME_MAX = 3.8;
+const RISE_SPEED = 0.28;
+const BUOYANCY = 0.05;
+const SWIRL = 0.12;              // strength of the curling drift
+const DRAG = 0.6;                // per second
+const START_SIZE = 0.02;
+const END_SIZE = 0.16;
+const MAX_ALPHA = 0.32;
+const INITIAL_PUSH = 0.15;       // the puff that blew the flame out
+const BREATH_PUSH = 0.9;
+const SMOKE_COLOR: [number, number, number] = [0.78, 0.78, 0.8];
+
+const vertexShader = `
+  attribute float size;
+  attribute float alpha;
+  uniform float viewportHeight;
+  varying float vAlpha;
+
+  void main() {
+    vAlpha = alpha;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = size * projectionMatrix[1][1] * viewportHeight * 0.5 / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const fragmentShader = `
+  uniform vec3 color;
+  varying float vAlpha;
+
+  void main() {
+    float d = length(gl_PointCoord - 0.5) * 2.0;
+    float falloff = smoothstep(1.0, 0.0, d);
+    gl_FragColor = vec4(color, vAlpha * falloff * falloff);
+  }
+`;
+
+/**
+ * Wispy smoke that rises from wherever it is mounted, simulated in world
+ * space so it is not dragged along by (or scaled with) its parent.
+ */
+export function SmokePlume({
+  active,
+  breath,
+  duration = 3,
+  color = SMOKE_COLOR,
+}: SmokePlumeProps) {
+  const anchorRef = useRef<Group>(null);
+  const pointsRef = useRef<Points>(null);
+  const previousActiveRef = useRef(active);
+  const emitRef = useRef({ remaining: 0, carry: 0, next: 0 });
+  const scratch = useMemo(
+    () => ({ origin: new Vector3(), away: new Vector3() }),
+    []
+  );
+
+  const particles = useMemo(() => {
+    const geometry = new BufferGeometry();
+    const positions = new Float32Array(PARTICLE_COUNT * 3);
+    geometry.setAttribute("position", new BufferAttribute(positions, 3));
+    geometry.setAttribute("size", new BufferAttribute(new Float32Array(PARTICLE_COUNT), 1));
+    geometry.setAttribute("alpha", new BufferAttribute(new Float32Array(PARTICLE_COUNT), 1));
+    return {
+      geometry,
+      positions,
+      velocities: new Float32Array(PARTICLE_COUNT * 3),
+      ages: new Float32Array(PARTICLE_COUNT),
+      lifetimes: new Float32Array(PARTICLE_COUNT),
+      seeds: new Float32Array(PARTICLE_COUNT).map(() => Math.random() * 100),
+    };
+  }, []);
+
+  const material = useMemo(
+    () =>
+      new ShaderMaterial({
+        uniforms: {
+          color: { value: new Vector3() },
+          viewportHeight: { value: 1 },
+        },
+        vertexShader,
+        fragmentShader,
+        transparent: true,
+        depthWrite: false,
+      }),
+    []
+  );
+
+  useEffect(() => {
+    material.uniforms.color.value.set(...color);
+  }, [material, color]);
+
+  useEffect(
+    () => () => {
+      particles.geometry.dispose();
+      material.dispose();
+    },
+    [particles, material]
+  );
+
+  useEffect(() => {
+    if (active && !previousActiveRef.current) {
+      emitRef.current.remaining = duration;
+    }
+    previousActiveRef.current = active;
+  }, [active, duration]);
+
+  useFrame(({ camera, size, viewport, clock }, rawDelta) => {
+    const anchor = anchorRef.current;
+    const points = pointsRef.current;
+    if (!anchor || !points) {
+      return;
+    }
+    const delta = Math.min(rawDelta, 0.05);
+    const { positions, velocities, ages, lifetimes, seeds, geometry } = particles;
+    const sizes = geometry.getAttribute("size") as BufferAttribute;
+    const alphas = geometry.getAttribute("alpha") as BufferAttribute;
+    material.uniforms.viewportHeight.value = size.height * viewport.dpr;
+
+    // Breath travels from the camera, so smoke leans away from the viewer.
+    const origin = anchor.getWorldPosition(scratch.origin);
+    const away = scratch.away.copy(origin).sub(camera.position).setY(0).normalize();
+    const gust = breath?.() ?? 0;
+
+    const emitter = emitRef.current;
+    if (emitter.remaining > 0) {
+      const strength = emitter.remaining / duration;
+      emitter.carry += EMIT_RATE * strength * delta;
+      emitter.remaining -= delta;
+      while (emitter.carry >= 1) {
+        emitter.carry -= 1;
+        const index = emitter.next;
+        emitter.next = (emitter.next + 1) % PARTICLE_COUNT;
+        const i3 = index * 3;
+        positions[i3] = origin.x + (Math.random() - 0.5) * 0.01;
+        positions[i3 + 1] = origin.y;
+        positions[i3 + 2] = origin.z + (Math.random() - 0.5) * 0.01;
+        const push = INITIAL_PUSH * strength;
+        velocities[i3] = away.x * push + (Math.random() - 0.5) * 0.03;
+        velocities[i3 + 1] = RISE_SPEED * (0.7 + Math.random() * 0.6);
+        velocities[i3 + 2] = away.z * push + (Math.random() - 0.5) * 0.03;
+        ages[index] = 0;
+        lifetimes[index] = LIFETIME_MIN + Math.random() * (LIFETIME_MAX - LIFETIME_MIN);
+      }
+    }
+
+    const time = clock.elapsedTime;
+    const damping = Math.exp(-DRAG * delta);
+    for (let index = 0; index < PARTICLE_COUNT; index++) {
+      if (lifetimes[index] === 0 || ages[index] >= lifetimes[index]) {
+        alphas.setX(index, 0);
+        continue;
+      }
+      ages[index] += delta;
+      const life = ages[index] / lifetimes[index];
+      const i3 = index * 3;
+      const seed = seeds[index];
+      const height = positions[i3 + 1] - origin.y;
+
+      // Two sine fields at right angles make the column twist as it rises.
+      const swirl = SWIRL * (0.3 + life);
+      velocities[i3] += (Math.sin(height * 7 + time * 1.3 + seed) * swirl + away.x * gust * BREATH_PUSH) * delta;
+      velocities[i3 + 1] += BUOYANCY * delta;
+      velocities[i3 + 2] += (Math.cos(height * 6 + time * 1.1 + seed * 1.7) * swirl + away.z * gust * BREATH_PUSH) * delta;
+      velocities[i3] *= damping;
+      velocities[i3 + 2] *= damping;
+
+      positions[i3] += velocities[i3] * delta;
+      positions[i3 + 1] += velocities[i3 + 1] * delta;
+      positions[i3 + 2] += velocities[i3 + 2] * delta;
+
+      sizes.setX(index, START_SIZE + (END_SIZE - START_SIZE) * Math.sqrt(life));
+      // Quick fade in, long fade out.
+      alphas.setX(index, MAX_ALPHA * Math.min(1, life * 8) * (1 - life) ** 2);
+    }
+
+    (geometry.getAttribute("position") as BufferAttribute).needsUpdate = true;
+    sizes.needsUpdate = true;
+    alphas.needsUpdate = true;
+  });
+
+  return (
+    <group ref={anchorRef}>
+      {/* Positions are already in world space, so skip the parent transforms. */}
+      <points
+        ref={pointsRef}
+        geometry={particles.geometry}
+        material={material}
+        frustumCulled={false}
+        matrixWorldAutoUpdate={false}
+      />
+    </group>
+  );
+}
@@ -0,0 +1,52 @@
+import { useAudioStatus } from "../audio/audioManagerContext";
+import type { AudioManager } from "../audio/audioManager";
+
+type SoundControlProps = {
+  manager: AudioManager;
+  /** Only nag about blocked autoplay once the greeting is trying to make sound. */
+  wantsSound: boolean;
+};
+
+export function SoundControl({ manager, wantsSound }: SoundControlProps) {
+  const status = useAudioStatus(manager);
+
+  return (
+    <>
+      {wantsSound && !status.unlocked && (
+        <button
+          type="button"
+          className="sound-unlock"
+          onClick={() => void manager.unlock()}
+        >
+          [ Tap to enable sound ]
+        </button>
+      )}
+      <div className="sound-control">
+        <button
+          type="button"
+          className="sound-mute"
+          aria-pressed={status.muted}
+          onClick={() => manager.setMuted(!status.muted)}
+        >
+          {status.muted ? "[ Sound off ]" : "[ Sound on ]"}
+        </button>
+        <input
+          className="sound-volume"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={status.volume}
+          aria-label="Volume"
+          disabled={status.muted}
+          onChange={(event) => manager.setVolume(Number(event.target.value))}
+        />
+        {status.failed.length > 0 && (
+          <span className="sound-failed" title={status.failed.join("\n")}>
+            [ {status.failed.length} track{status.failed.length === 1 ? "" : "s"} failed to load ]
+          </span>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { PLAYBACK_RATES } from "../timeline/playbackClock";
+import type { PlaybackClock } from "../timeline/playbackClock";
+import type { IntroSchedule } from "../timeline/introSchedule";
+
+type TimelineScrubberProps = {
+  playback: PlaybackClock;
+  schedule: IntroSchedule;
+  onSeek: (time: number, celebrate?: boolean) => void;
+};
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+/** Dev-only panel for pausing, slowing down and jumping around the intro. Toggle with the ` key. */
+export function TimelineScrubber({ playback, schedule, onSeek }: TimelineScrubberProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [time, setTime] = useState(() => playback.now());
+  const [isPlaying, setIsPlaying] = useState(() => playback.isPlaying());
+  const [rate, setRate] = useState(() => playback.rate());
+
+  useEffect(
+    () =>
+      playback.subscribe(() => {
+        setIsPlaying(playback.isPlaying());
+        setRate(playback.rate());
+      }),
+    [playback]
+  );
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    let frame = 0;
+    const tick = () => {
+      setTime(Math.min(playback.now(), schedule.end));
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isOpen, playback, schedule.end]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === "Backquote") {
+        setIsOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const markers: { label: string; time: number; celebrate?: boolean }[] = [
+    { label: "Start", time: 0 },
+    { label: "Scene", time: schedule.sceneStart },
+    { label: "Candle lit", time: schedule.end },
+    { label: "Fireworks", time: schedule.end, celebrate: true },
+  ];
+
+  return (
+    <div className="scrubber-panel">
+      <div className="editor-row">
+        <button
+          type="button"
+          className="editor-button"
+          onClick={() => (isPlaying ? playback.pause() : playback.play())}
+        >
+          {isPlaying ? "Pause" : "Play"}
+        </button>
+        {PLAYBACK_RATES.map((option) => (
+          <button
+            key={option}
+            type="button"
+            className={option === rate ? "editor-button is-active" : "editor-button"}
+            onClick={() => playback.setRate(option)}
+          >
+            {option}x
+          </button>
+        ))}
+        <span className="scrubber-time">
+          {formatTime(time)} / {formatTime(schedule.end)}
+        </span>
+      </div>
+      <input
+        className="scrubber-range"
+        type="range"
+        min={0}
+        max={schedule.end}
+        step={0.01}
+        value={time}
+        onChange={(event) => onSeek(Number(event.target.value))}
+      />
+      <div className="editor-row">
+        {markers.map((marker) => (
+          <button
+            key={marker.label}
+            type="button"
+            className="editor-button"
+            onClick={() => onSeek(marker.time, marker.celebrate)}
+          >
+            {marker.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import type { Dispatch } from "react";
+import type { SceneManifest } from "../scene/manifest";
+import { exportManifestJson, TABLE_SURFACE_Y } from "./layout";
+import type { LayoutAction, LayoutHistory } from "./layout";
+import type { GizmoMode } from "./LayoutGizmo";
+
+type EditorPanelProps = {
+  manifest: SceneManifest;
+  history: LayoutHistory;
+  dispatch: Dispatch<LayoutAction>;
+  selectedKey: string | null;
+  onSelect: (key: string | null) => void;
+  mode: GizmoMode;
+  onModeChange: (mode: GizmoMode) => void;
+  snap: boolean;
+  onSnapChange: (snap: boolean) => void;
+};
+
+const formatVec3 = (value: readonly number[]) =>
+  `[${value.map((component) => component.toFixed(3)).join(", ")}]`;
+
+export function EditorPanel({
+  manifest,
+  history,
+  dispatch,
+  selectedKey,
+  onSelect,
+  mode,
+  onModeChange,
+  snap,
+  onSnapChange,
+}: EditorPanelProps) {
+  const [copied, setCopied] = useState(false);
+  const selected = selectedKey ? history.present[selectedKey] : null;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) {
+        return;
+      }
+      const modifier = event.ctrlKey || event.metaKey;
+      if (modifier && event.code === "KeyZ") {
+        event.preventDefault();
+        dispatch({ type: event.shiftKey ? "redo" : "undo" });
+      } else if (modifier && event.code === "KeyY") {
+        event.preventDefault();
+        dispatch({ type: "redo" });
+      } else if (event.code === "KeyW") {
+        onModeChange("translate");
+      } else if (event.code === "KeyE") {
+        onModeChange("rotate");
+      } else if (event.code === "KeyS" && !modifier) {
+        onSnapChange(!snap);
+      } else if (event.code === "Escape") {
+        onSelect(null);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [dispatch, onModeChange, onSelect, onSnapChange, snap]);
+
+  const json = () => exportManifestJson(manifest, history.present);
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([json()], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "scene.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copy = () => {
+    void navigator.clipboard
+      .writeText(json())
+      .then(() => setCopied(true))
+      .catch(() => setCopied(false));
+  };
+
+  return (
+    <div className="editor-panel">
+      <div className="editor-title">[ Layout editor ]</div>
+      <div className="editor-row">
+        {Object.keys(history.present).map((key) => (
+          <button
+            key={key}
+            type="button"
+            className={key === selectedKey ? "editor-button is-active" : "editor-button"}
+            onClick={() => onSelect(key === selectedKey ? null : key)}
+          >
+            {key}
+          </button>
+        ))}
+      </div>
+      <div className="editor-row">
+        <button
+          type="button"
+          className={mode === "translate" ? "editor-button is-active" : "editor-button"}
+          onClick={() => onModeChange("translate")}
+        >
+          Move (W)
+        </button>
+        <button
+          type="button"
+          className={mode === "rotate" ? "editor-button is-active" : "editor-button"}
+          onClick={() => onModeChange("rotate")}
+        >
+          Rotate (E)
+        </button>
+        <button
+          type="button"
+          className={snap ? "editor-button is-active" : "editor-button"}
+          onClick={() => onSnapChange(!snap)}
+          title={`Snaps to a grid and to the table top at y = ${TABLE_SURFACE_Y}`}
+        >
+          Snap (S)
+        </button>
+        <button
+          type="button"
+          className="editor-button"
+          disabled={history.past.length === 0}
+          onClick={() => dispatch({ type: "undo" })}
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          className="editor-button"
+          disabled={history.future.length === 0}
+          onClick={() => dispatch({ type: "redo" })}
+        >
+          Redo
+        </button>
+      </div>
+      {selected && (
+        <div className="editor-readout">
+          <div>tablePosition: {formatVec3(selected.tablePosition)}</div>
+          <div>tableRotation: {formatVec3(selected.tableRotation)}</div>
+        </div>
+      )}
+      <div className="editor-row">
+        <button type="button" className="editor-button" onClick={download}>
+          Download scene.json
+        </button>
+        <button type="button" className="editor-button" onClick={copy}>
+          {copied ? "Copied" : "Copy JSON"}
+        </button>
+      </div>
+    </div>
+  );
+}
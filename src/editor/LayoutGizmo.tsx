@@ -0,0 +1,67 @@
+import { TransformControls } from "@react-three/drei";
+import { useState } from "react";
+import type { Group } from "three";
+import {
+  ROTATION_SNAP,
+  snapPlacement,
+  TRANSLATION_SNAP,
+} from "./layout";
+import type { TablePlacement } from "./layout";
+
+export type GizmoMode = "translate" | "rotate";
+
+type LayoutGizmoProps = {
+  placement: TablePlacement;
+  mode: GizmoMode;
+  snap: boolean;
+  onPreview: (placement: TablePlacement) => void;
+  onCommit: () => void;
+};
+
+/**
+ * Transform handles for the selected table object. The handles drive an empty
+ * proxy group; its transform is read back into the layout, which the real
+ * object then follows through its `tablePosition`/`tableRotation` props.
+ */
+export function LayoutGizmo({ placement, mode, snap, onPreview, onCommit }: LayoutGizmoProps) {
+  const [proxy, setProxy] = useState<Group | null>(null);
+
+  const readPlacement = (): TablePlacement | null => {
+    if (!proxy) {
+      return null;
+    }
+    return snapPlacement(
+      {
+        tablePosition: [proxy.position.x, proxy.position.y, proxy.position.z],
+        tableRotation: [proxy.rotation.x, proxy.rotation.y, proxy.rotation.z],
+      },
+      snap
+    );
+  };
+
+  return (
+    <>
+      <group
+        ref={setProxy}
+        position={placement.tablePosition}
+        rotation={placement.tableRotation}
+      />
+      {proxy && (
+        <TransformControls
+          object={proxy}
+          mode={mode}
+          size={0.7}
+          translationSnap={snap ? TRANSLATION_SNAP : null}
+          rotationSnap={snap ? ROTATION_SNAP : null}
+          onObjectChange={() => {
+            const next = readPlacement();
+            if (next) {
+              onPreview(next);
+            }
+          }}
+          onMouseUp={onCommit}
+        />
+      )}
+    </>
+  );
+}
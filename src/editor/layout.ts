@@ -0,0 +1,150 @@
+import type { SceneManifest, Vec3 } from "../scene/manifest";
+
+/** Height of the table top in table-local space; objects resting on it sit here. */
+export const TABLE_SURFACE_Y = 0.735;
+const SURFACE_SNAP_DISTANCE = 0.1;
+
+export const TRANSLATION_SNAP = 0.05;
+export const ROTATION_SNAP = Math.PI / 24;
+
+export type TableObjectKind = "frame" | "bouquet" | "card";
+
+export type TablePlacement = {
+  tablePosition: Vec3;
+  tableRotation: Vec3;
+};
+
+/** Placements keyed by `tableObjectKey`. */
+export type TableLayout = Record<string, TablePlacement>;
+
+export const tableObjectKey = (kind: TableObjectKind, id: string) => `${kind}:${id}`;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const roundVec3 = ([x, y, z]: Vec3): Vec3 => [round(x), round(y), round(z)];
+
+export function layoutFromManifest(manifest: SceneManifest): TableLayout {
+  const layout: TableLayout = {};
+  const collections: [TableObjectKind, ReadonlyArray<{ id: string } & TablePlacement>][] = [
+    ["frame", manifest.frames],
+    ["bouquet", manifest.bouquets],
+    ["card", manifest.cards],
+  ];
+  for (const [kind, objects] of collections) {
+    for (const object of objects) {
+      layout[tableObjectKey(kind, object.id)] = {
+        tablePosition: object.tablePosition,
+        tableRotation: object.tableRotation,
+      };
+    }
+  }
+  return layout;
+}
+
+export function applyLayout(manifest: SceneManifest, layout: TableLayout): SceneManifest {
+  const place = <T extends { id: string } & TablePlacement>(kind: TableObjectKind, object: T): T => {
+    const placement = layout[tableObjectKey(kind, object.id)];
+    return placement ? { ...object, ...placement } : object;
+  };
+  return {
+    ...manifest,
+    frames: manifest.frames.map((frame) => place("frame", frame)),
+    bouquets: manifest.bouquets.map((bouquet) => place("bouquet", bouquet)),
+    cards: manifest.cards.map((card) => place("card", card)),
+  };
+}
+
+/** Rounds a placement for export and pulls it onto the table top when it is close. */
+export function snapPlacement(placement: TablePlacement, snapToSurface: boolean): TablePlacement {
+  const [x, y, z] = placement.tablePosition;
+  const snappedY =
+    snapToSurface && Math.abs(y - TABLE_SURFACE_Y) < SURFACE_SNAP_DISTANCE ? TABLE_SURFACE_Y : y;
+  return {
+    tablePosition: roundVec3([x, snappedY, z]),
+    tableRotation: roundVec3(placement.tableRotation),
+  };
+}
+
+export function exportManifestJson(manifest: SceneManifest, layout: TableLayout) {
+  return `${JSON.stringify(applyLayout(manifest, layout), null, 2)}\n`;
+}
+
+/* ─── undo / redo ─── */
+
+export type LayoutHistory = {
+  past: TableLayout[];
+  present: TableLayout;
+  future: TableLayout[];
+  /** Layout before an in-progress gizmo drag; committed to `past` when the drag ends. */
+  dragOrigin: TableLayout | null;
+};
+
+export type LayoutAction =
+  | { type: "preview"; key: string; placement: TablePlacement }
+  | { type: "commit" }
+  | { type: "set"; key: string; placement: TablePlacement }
+  | { type: "undo" }
+  | { type: "redo" };
+
+const HISTORY_LIMIT = 100;
+
+export const createLayoutHistory = (layout: TableLayout): LayoutHistory => ({
+  past: [],
+  present: layout,
+  future: [],
+  dragOrigin: null,
+});
+
+const pushPast = (past: TableLayout[], layout: TableLayout) =>
+  [...past, layout].slice(-HISTORY_LIMIT);
+
+export function layoutHistoryReducer(state: LayoutHistory, action: LayoutAction): LayoutHistory {
+  switch (action.type) {
+    case "preview":
+      return {
+        ...state,
+        present: { ...state.present, [action.key]: action.placement },
+        dragOrigin: state.dragOrigin ?? state.present,
+      };
+    case "commit":
+      if (!state.dragOrigin) {
+        return state;
+      }
+      return {
+        past: pushPast(state.past, state.dragOrigin),
+        present: state.present,
+        future: [],
+        dragOrigin: null,
+      };
+    case "set":
+      return {
+        past: pushPast(state.past, state.present),
+        present: { ...state.present, [action.key]: action.placement },
+        future: [],
+        dragOrigin: null,
+      };
+    case "undo": {
+      const previous = state.past[state.past.length - 1];
+      if (!previous || state.dragOrigin) {
+        return state;
+      }
+      return {
+        past: state.past.slice(0, -1),
+        present: previous,
+        future: [state.present, ...state.future],
+        dragOrigin: null,
+      };
+    }
+    case "redo": {
+      const [next, ...future] = state.future;
+      if (!next || state.dragOrigin) {
+        return state;
+      }
+      return {
+        past: pushPast(state.past, state.present),
+        present: next,
+        future,
+        dragOrigin: null,
+      };
+    }
+  }
+}
@@ -0,0 +1,35 @@
+type Handler<Payload> = (payload: Payload) => void;
+
+export type EventBus<Events extends Record<string, unknown>> = {
+  emit: <Type extends keyof Events>(type: Type, payload: Events[Type]) => void;
+  /** Returns an unsubscribe function, so it can be returned straight from an effect. */
+  on: <Type extends keyof Events>(type: Type, handler: Handler<Events[Type]>) => () => void;
+};
+
+export function createEventBus<Events extends Record<string, unknown>>(): EventBus<Events> {
+  const handlers = new Map<keyof Events, Set<Handler<never>>>();
+
+  return {
+    emit(type, payload) {
+      const listeners = handlers.get(type);
+      if (!listeners) {
+        return;
+      }
+      // Copy so handlers can unsubscribe while being notified.
+      for (const handler of [...listeners]) {
+        (handler as Handler<typeof payload>)(payload);
+      }
+    },
+    on(type, handler) {
+      let listeners = handlers.get(type);
+      if (!listeners) {
+        listeners = new Set();
+        handlers.set(type, listeners);
+      }
+      listeners.add(handler as Handler<never>);
+      return () => {
+        listeners.delete(handler as Handler<never>);
+      };
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type { ConfettiCannon } from "../ambient/confetti";
+import { createEventBus } from "./eventBus";
+import type { EventBus } from "./eventBus";
+import { createExperienceState, transition } from "./machine";
+import type { ExperienceEvent, ExperiencePhase, ExperienceState } from "./machine";
+
+export type ExperienceBusEvents = {
+  /** Every accepted state machine transition. */
+  transition: { from: ExperiencePhase; to: ExperiencePhase; event: ExperienceEvent };
+  /** A click on empty sky, in client pixels; the fireworks launch a shell toward it. */
+  skyClick: { clientX: number; clientY: number };
+  /** Fires the confetti cannons; `cannons` replaces the configured ones for this burst. */
+  confetti: { cannons?: ConfettiCannon[] };
+};
+
+export type ExperienceBus = EventBus<ExperienceBusEvents>;
+
+export type ExperienceApi = {
+  state: ExperienceState;
+  /** Returns whether the event was accepted in the current phase. */
+  send: (event: ExperienceEvent) => boolean;
+  /** Latest state, including events sent since the last render. */
+  getState: () => ExperienceState;
+  bus: ExperienceBus;
+};
+
+export const ExperienceContext = createContext<ExperienceApi | null>(null);
+
+export function useExperienceMachine(candleCount: number): ExperienceApi {
+  const [bus] = useState(() => createEventBus<ExperienceBusEvents>());
+  const [state, setState] = useState(() => createExperienceState(candleCount));
+  // Events can arrive several times within one render (key repeat, rAF), so read and
+  // write the latest state synchronously instead of waiting for React.
+  const stateRef = useRef(state);
+
+  const send = useCallback(
+    (event: ExperienceEvent) => {
+      const current = stateRef.current;
+      const next = transition(current, event);
+      if (next === current) {
+        return false;
+      }
+      stateRef.current = next;
+      setState(next);
+      bus.emit("transition", { from: current.phase, to: next.phase, event });
+      return true;
+    },
+    [bus]
+  );
+
+  const getState = useCallback(() => stateRef.current, []);
+
+  // Provided as a context value, so it only changes when the state does.
+  return useMemo(() => ({ state, send, getState, bus }), [state, send, getState, bus]);
+}
+
+export function useExperience(): ExperienceApi {
+  const experience = useContext(ExperienceContext);
+  if (!experience) {
+    throw new Error("useExperience must be used inside an ExperienceContext provider");
+  }
+  return experience;
+}
+
+/** Subscribes to a bus event for the lifetime of the component. */
+export function useExperienceEvent<Type extends keyof ExperienceBusEvents>(
+  type: Type,
+  handler: (payload: ExperienceBusEvents[Type]) => void
+) {
+  const { bus } = useExperience();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => bus.on(type, (payload) => handlerRef.current(payload)), [bus, type]);
+}
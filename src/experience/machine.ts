@@ -0,0 +1,152 @@
+/**
+ * The greeting's flow as an explicit state machine:
+ *
+ *   idle → typing → sceneIntro → candleLit → celebrating → outro
+ *
+ * Components never flip flow flags directly; they send events, and anything
+ * that cares about a step subscribes to the transition on the event bus.
+ */
+export type ExperiencePhase =
+  | "idle"
+  | "typing"
+  | "sceneIntro"
+  | "candleLit"
+  | "celebrating"
+  | "outro";
+
+export type ExperienceEvent =
+  | { type: "start" }
+  | { type: "typingDone" }
+  | { type: "introDone" }
+  /** Puts out the candles at these indexes; the celebration starts when none are left. */
+  | { type: "extinguish"; candles: number[] }
+  /** Ends the celebration; nothing sends it yet, it is the hook for a credits or wish step. */
+  | { type: "finish" }
+  /** Dev tools jump straight to a phase, see `TimelineScrubber`. */
+  | { type: "seek"; phase: Exclude<ExperiencePhase, "idle"> };
+
+export type ExperienceEventType = ExperienceEvent["type"];
+
+export type ExperienceState = {
+  phase: ExperiencePhase;
+  /** One entry per candle on the cake. */
+  litCandles: boolean[];
+};
+
+type Transition = {
+  target: ExperiencePhase | ((state: ExperienceState, event: ExperienceEvent) => ExperiencePhase);
+  guard?: (state: ExperienceState, event: ExperienceEvent) => boolean;
+  /** Updates the rest of the state; `target` sees the result. */
+  update?: (state: ExperienceState, event: ExperienceEvent) => ExperienceState;
+};
+
+const seek: Transition = {
+  target: (_, event) => (event.type === "seek" ? event.phase : "idle"),
+  guard: (_, event) => event.type === "seek",
+  // Everything before the celebration has every candle lit, everything after has none.
+  update: (state, event) => {
+    const lit = event.type === "seek" && isCandleLitIn(event.phase);
+    return { ...state, litCandles: state.litCandles.map(() => lit) };
+  },
+};
+
+const extinguish: Transition = {
+  target: (state) => (state.litCandles.some(Boolean) ? "candleLit" : "celebrating"),
+  guard: (state, event) =>
+    event.type === "extinguish" && event.candles.some((index) => state.litCandles[index]),
+  update: (state, event) => {
+    const candles = event.type === "extinguish" ? event.candles : [];
+    return {
+      ...state,
+      litCandles: state.litCandles.map((lit, index) => lit && !candles.includes(index)),
+    };
+  },
+};
+
+const TRANSITIONS: Record<
+  ExperiencePhase,
+  Partial<Record<ExperienceEventType, Transition>>
+> = {
+  idle: {
+    start: { target: "typing" },
+    seek,
+  },
+  typing: {
+    typingDone: { target: "sceneIntro" },
+    seek,
+  },
+  sceneIntro: {
+    introDone: { target: "candleLit" },
+    seek,
+  },
+  candleLit: {
+    extinguish,
+    seek,
+  },
+  celebrating: {
+    finish: { target: "outro" },
+    seek,
+  },
+  outro: {
+    seek,
+  },
+};
+
+export const createExperienceState = (candleCount: number): ExperienceState => ({
+  phase: "idle",
+  litCandles: Array.from({ length: candleCount }, () => true),
+});
+
+/** Returns the next state, or the same object when the event is not allowed in this phase. */
+export function transition(state: ExperienceState, event: ExperienceEvent): ExperienceState {
+  const candidate = TRANSITIONS[state.phase][event.type];
+  if (!candidate || (candidate.guard && !candidate.guard(state, event))) {
+    return state;
+  }
+  const updated = candidate.update?.(state, event) ?? state;
+  const phase =
+    typeof candidate.target === "function"
+      ? candidate.target(updated, event)
+      : candidate.target;
+  if (updated === state && phase === state.phase) {
+    return state;
+  }
+  return { ...updated, phase };
+}
+
+export const canSend = (state: ExperienceState, event: ExperienceEvent) =>
+  transition(state, event) !== state;
+
+/* ─── derived flags, for components that only care about one aspect ─── */
+
+const PHASE_ORDER: ExperiencePhase[] = [
+  "idle",
+  "typing",
+  "sceneIntro",
+  "candleLit",
+  "celebrating",
+  "outro",
+];
+
+/** True once the flow has reached `phase` or anything after it. */
+export const hasReached = (current: ExperiencePhase, phase: ExperiencePhase) =>
+  PHASE_ORDER.indexOf(current) >= PHASE_ORDER.indexOf(phase);
+
+/** Whether the candles are still burning in `phase`; individual ones may be out during `candleLit`. */
+export function isCandleLitIn(phase: ExperiencePhase) {
+  return !hasReached(phase, "celebrating");
+}
+
+/**
+ * Picks which lit candles a single blow reaches: `strength` of them, at
+ * least one, chosen at random so repeated blows work their way around.
+ */
+export function pickCandlesToBlow(litCandles: boolean[], strength: number, random = Math.random) {
+  const lit = litCandles.flatMap((isLit, index) => (isLit ? [index] : []));
+  const count = Math.max(1, Math.ceil(lit.length * strength));
+  for (let index = lit.length - 1; index > 0; index--) {
+    const swap = Math.floor(random() * (index + 1));
+    [lit[index], lit[swap]] = [lit[swap], lit[index]];
+  }
+  return lit.slice(0, count);
+}
@@ -0,0 +1,34 @@
+export type PaletteColor = [number, number, number];
+
+export type PaletteName = "gold" | "magenta" | "cyan" | "green" | "red" | "purple" | "silver";
+
+/* Each palette runs from the bright core colour to the one stars fade towards. */
+export const PALETTES: Record<PaletteName, PaletteColor[]> = {
+  // gold + white
+  gold: [[1, 0.85, 0.3], [1, 0.95, 0.7], [1, 1, 1]],
+  // magenta + pink
+  magenta: [[1, 0.2, 0.6], [1, 0.5, 0.8], [1, 0.8, 1]],
+  // cyan + blue
+  cyan: [[0.2, 0.8, 1], [0.4, 0.6, 1], [0.7, 0.9, 1]],
+  // green + lime
+  green: [[0.3, 1, 0.4], [0.6, 1, 0.3], [0.8, 1, 0.7]],
+  // red + orange
+  red: [[1, 0.25, 0.15], [1, 0.55, 0.1], [1, 0.8, 0.4]],
+  // purple + violet
+  purple: [[0.6, 0.2, 1], [0.8, 0.4, 1], [0.9, 0.7, 1]],
+  // white + silver
+  silver: [[1, 1, 1], [0.9, 0.95, 1], [0.8, 0.85, 0.95]],
+};
+
+export const PALETTE_NAMES = Object.keys(PALETTES) as PaletteName[];
+
+export const isPaletteName = (value: unknown): value is PaletteName =>
+  typeof value === "string" && Object.hasOwn(PALETTES, value);
+
+/* Calm passages lean cool, loud ones warm. */
+export const CALM_PALETTES: PaletteName[] = ["cyan", "purple", "silver"];
+export const BRIGHT_PALETTES: PaletteName[] = ["gold", "magenta", "red"];
+
+export function pickPalette(names: ReadonlyArray<PaletteName> = PALETTE_NAMES, random = Math.random) {
+  return PALETTES[names[Math.floor(random() * names.length)]];
+}
@@ -0,0 +1,181 @@
+import type { PaletteName } from "./palettes";
+import type { TextPoints } from "./textPoints";
+
+/**
+ * Burst shapes and behaviours. Velocities are in the shell's local frame:
+ * x is screen right, y is up and z points at the viewer, so planar shapes
+ * such as rings, hearts and text face the camera.
+ */
+export type ShellTypeName =
+  | "peony"
+  | "ring"
+  | "heart"
+  | "palm"
+  | "willow"
+  | "crossette"
+  | "strobe"
+  | "text";
+
+export type StarContext = {
+  index: number;
+  count: number;
+  /** Random tilt shared by every star of one shell, 0-1. */
+  seed: number;
+  /** Glyph points for text shells, already sampled to `count`. */
+  text: TextPoints;
+  /** The shell's random source; seeded for scripted shows. */
+  random: () => number;
+};
+
+export type ShellType = {
+  /** Relative chance of being picked when types are mixed. */
+  weight: number;
+  /** Writes the initial velocity of one star, before the shell's power is applied. */
+  velocity: (out: [number, number, number], star: StarContext) => void;
+  /** Multiplies the burst lifetime. */
+  lifetime?: number;
+  /** Velocity kept per frame; defaults to the shared drag. */
+  drag?: number;
+  /** Multiplies gravity. */
+  gravity?: number;
+  /** Preferred palettes. */
+  palettes?: PaletteName[];
+  /** Stars blink this many times a second once a quarter of the way through their life. */
+  strobe?: number;
+  /** Crackles after the boom, for glittering stars. */
+  crackle?: boolean;
+  /** Each star drags this many dimmer sparks behind it. */
+  trail?: number;
+  /** Each star splits into `into` smaller stars once it is `at` of the way through its life. */
+  split?: { at: number; into: number };
+};
+
+const between = (random: () => number, min: number, max: number) =>
+  min + random() * (max - min);
+
+function sphere(out: [number, number, number], speed: number, random: () => number) {
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(random() * 2 - 1);
+  out[0] = Math.sin(phi) * Math.cos(theta) * speed;
+  out[1] = Math.sin(phi) * Math.sin(theta) * speed * 0.6 + Math.cos(phi) * speed * 0.5;
+  out[2] = Math.sin(phi) * Math.sin(theta + Math.PI / 2) * speed;
+}
+
+export const SHELL_TYPES: Record<ShellTypeName, ShellType> = {
+  peony: {
+    weight: 3,
+    velocity: (out, { random }) => sphere(out, between(random, 2, 5), random),
+  },
+  ring: {
+    weight: 1,
+    velocity: (out, { index, count, seed, random }) => {
+      const angle = (index / count) * Math.PI * 2;
+      const tilt = (seed - 0.5) * 1.2;
+      const speed = 4.2 * between(random, 0.97, 1.03);
+      out[0] = Math.cos(angle) * speed;
+      out[1] = Math.sin(angle) * Math.cos(tilt) * speed;
+      out[2] = Math.sin(angle) * Math.sin(tilt) * speed;
+    },
+    drag: 0.95,
+  },
+  heart: {
+    weight: 1,
+    velocity: (out, { index, count, random }) => {
+      const t = (index / count) * Math.PI * 2;
+      out[0] = 16 * Math.sin(t) ** 3 * 0.5;
+      out[1] = (13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)) * 0.5;
+      out[2] = between(random, -0.2, 0.2);
+    },
+    drag: 0.93,
+    gravity: 0.25,
+    palettes: ["magenta", "red"],
+  },
+  palm: {
+    weight: 1,
+    // A few heavy fronds thrown up and out that droop like palm leaves.
+    velocity: (out, { index, count, seed }) => {
+      const fronds = 7;
+      const frond = index % fronds;
+      const along = Math.floor(index / fronds) / Math.ceil(count / fronds);
+      const angle = (frond / fronds) * Math.PI * 2 + seed * Math.PI;
+      const speed = 5.5 * (0.55 + along * 0.45);
+      out[0] = Math.cos(angle) * speed;
+      out[1] = 2.5 + along * 1.5;
+      out[2] = Math.sin(angle) * speed * 0.6;
+    },
+    lifetime: 1.6,
+    gravity: 0.8,
+    palettes: ["gold", "red"],
+    trail: 3,
+    crackle: true,
+  },
+  willow: {
+    weight: 1,
+    velocity: (out, { random }) => sphere(out, between(random, 1.5, 3), random),
+    lifetime: 2.4,
+    drag: 0.985,
+    gravity: 0.45,
+    palettes: ["gold", "silver"],
+    trail: 3,
+    crackle: true,
+  },
+  crossette: {
+    weight: 1,
+    velocity: (out, { index, count, seed, random }) => {
+      // Evenly spaced stars so the splits read as a pattern.
+      const angle = (index / count) * Math.PI * 2 + seed;
+      out[0] = Math.cos(angle) * 4;
+      out[1] = Math.sin(angle) * 4;
+      out[2] = between(random, -0.6, 0.6);
+    },
+    split: { at: 0.4, into: 4 },
+    crackle: true,
+  },
+  strobe: {
+    weight: 1,
+    velocity: (out, { random }) => sphere(out, between(random, 2, 4), random),
+    lifetime: 1.4,
+    palettes: ["silver"],
+    strobe: 11,
+    crackle: true,
+  },
+  text: {
+    weight: 0.5,
+    velocity: (out, { index, text, random }) => {
+      const [x, y] = text[index] ?? [0, 0];
+      out[0] = x * 11;
+      out[1] = y * 11;
+      out[2] = between(random, -0.15, 0.15);
+    },
+    lifetime: 1.6,
+    drag: 0.94,
+    gravity: 0.1,
+  },
+};
+
+export const SHELL_TYPE_NAMES = Object.keys(SHELL_TYPES) as ShellTypeName[];
+
+export const isShellTypeName = (value: unknown): value is ShellTypeName =>
+  typeof value === "string" && Object.hasOwn(SHELL_TYPES, value);
+
+/** Picks one of `names` by weight. */
+export function pickShellType(
+  names: ReadonlyArray<ShellTypeName>,
+  random = Math.random
+): ShellTypeName {
+  const total = names.reduce((sum, name) => sum + SHELL_TYPES[name].weight, 0);
+  let roll = random() * total;
+  for (const name of names) {
+    roll -= SHELL_TYPES[name].weight;
+    if (roll <= 0) {
+      return name;
+    }
+  }
+  return names[names.length - 1];
+}
+
+/** How a shell's particle budget splits between stars and the sparks they carry. */
+export function starLayout(type: ShellType, budget: number) {
+  const children = type.trail ?? type.split?.into ?? 0;
+  return { stars: Math.floor(budget / (1 + children)), children };
+}
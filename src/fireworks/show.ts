@@ -0,0 +1,119 @@
+import type { PaletteName } from "./palettes";
+import type { ShellTypeName } from "./shellTypes";
+
+/** One moment in a scripted show. Positions and altitudes are normalised to the firework sky. */
+export type ShowCue = {
+  /** Seconds after the show starts at which the shells burst. */
+  at: number;
+  shell?: ShellTypeName;
+  /** Across the sky, from -1 (left) to 1 (right). */
+  position?: number;
+  palette?: PaletteName;
+  /** Burst height from 0 (low) to 1 (high), the range random launches use. */
+  altitude?: number;
+  count?: number;
+  /** Half-width of the row several shells spread over around `position`. */
+  spread?: number;
+  /** Seconds between consecutive shells of this cue. */
+  stagger?: number;
+  /** A dense volley across the whole sky mixing shell types and palettes. */
+  finale?: boolean;
+};
+
+export type FireworksShow = {
+  cues: ShowCue[];
+  /** Seeds every random choice, so the show plays the same every time. */
+  seed?: number;
+  /** After the last cue: go back to random launches (default), stop, or start over. */
+  then?: "random" | "stop" | "loop";
+};
+
+export type ScheduledShell = {
+  burstAt: number;
+  type: ShellTypeName;
+  position: number;
+  altitude: number;
+  /** 0-1 distance behind the launch line. */
+  depth: number;
+  palette?: PaletteName;
+  power: number;
+  /** Seeds the shell's own randomness, e.g. its star directions. */
+  seed: number;
+};
+
+export const SHOW_ENDINGS = ["random", "stop", "loop"] as const;
+
+export const isShowEnding = (value: unknown): value is (typeof SHOW_ENDINGS)[number] =>
+  typeof value === "string" && (SHOW_ENDINGS as readonly string[]).includes(value);
+
+const FINALE_COUNT = 24;
+const FINALE_STAGGER = 0.07;
+const DEFAULT_SPREAD = 0.3;
+
+/** Small, fast seeded PRNG (mulberry32); returns values in [0, 1). */
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const clampPosition = (value: number) => Math.min(1, Math.max(-1, value));
+
+/**
+ * Expands cues into individual shells sorted by burst time. `mix` is the
+ * pool a finale draws its shell types from.
+ */
+export function scheduleShow(
+  show: FireworksShow,
+  mix: ReadonlyArray<ShellTypeName>
+): ScheduledShell[] {
+  const random = seededRandom(show.seed ?? 1);
+  const finaleTypes = mix.filter((type) => type !== "text");
+  const shells: ScheduledShell[] = [];
+
+  for (const cue of show.cues) {
+    if (cue.finale) {
+      const count = cue.count ?? FINALE_COUNT;
+      for (let index = 0; index < count; index++) {
+        shells.push({
+          burstAt: cue.at + index * (cue.stagger ?? FINALE_STAGGER),
+          type:
+            cue.shell ??
+            (finaleTypes.length > 0
+              ? finaleTypes[Math.floor(random() * finaleTypes.length)]
+              : "peony"),
+          position: clampPosition((random() * 2 - 1) * (cue.spread ?? 1) + (cue.position ?? 0)),
+          altitude: cue.altitude ?? 0.3 + random() * 0.7,
+          depth: random(),
+          palette: cue.palette,
+          power: 1.2,
+          seed: Math.floor(random() * 2 ** 32),
+        });
+      }
+      continue;
+    }
+
+    const count = cue.count ?? 1;
+    const spread = cue.spread ?? DEFAULT_SPREAD;
+    for (let index = 0; index < count; index++) {
+      const offset = count > 1 ? (index / (count - 1) - 0.5) * 2 * spread : 0;
+      shells.push({
+        burstAt: cue.at + index * (cue.stagger ?? 0),
+        type: cue.shell ?? "peony",
+        position: clampPosition((cue.position ?? 0) + offset),
+        altitude: cue.altitude ?? 0.5,
+        depth: random(),
+        palette: cue.palette,
+        power: 1,
+        seed: Math.floor(random() * 2 ** 32),
+      });
+    }
+  }
+
+  return shells.sort((a, b) => a.burstAt - b.burstAt);
+}
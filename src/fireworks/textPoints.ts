@@ -0,0 +1,64 @@
+/** Points sampled from rasterized text, centred, with x in [-1, 1] and y scaled to match. */
+export type TextPoints = [number, number][];
+
+const CANVAS_WIDTH = 512;
+const CANVAS_HEIGHT = 128;
+const FONT = "bold 96px sans-serif";
+const SAMPLE_STEP = 4;
+
+const cache = new Map<string, TextPoints>();
+
+export function textPoints(text: string): TextPoints {
+  const cached = cache.get(text);
+  if (cached) {
+    return cached;
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    return [];
+  }
+  context.font = FONT;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  // Shrink long words to fit rather than clipping them.
+  const width = context.measureText(text).width;
+  const scale = Math.min(1, (CANVAS_WIDTH * 0.95) / width);
+  context.setTransform(scale, 0, 0, scale, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+  context.fillStyle = "#fff";
+  context.fillText(text, 0, 0);
+
+  const { data } = context.getImageData(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  const points: TextPoints = [];
+  let minX = Infinity;
+  let maxX = -Infinity;
+  for (let y = 0; y < CANVAS_HEIGHT; y += SAMPLE_STEP) {
+    for (let x = 0; x < CANVAS_WIDTH; x += SAMPLE_STEP) {
+      if (data[(y * CANVAS_WIDTH + x) * 4 + 3] > 128) {
+        points.push([x, y]);
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+      }
+    }
+  }
+
+  const halfWidth = Math.max(1, (maxX - minX) / 2);
+  const centerX = (minX + maxX) / 2;
+  const normalized: TextPoints = points.map(([x, y]) => [
+    (x - centerX) / halfWidth,
+    (CANVAS_HEIGHT / 2 - y) / halfWidth,
+  ]);
+  cache.set(text, normalized);
+  return normalized;
+}
+
+/** `count` points spread evenly over the glyphs, repeating when there are fewer. */
+export function sampleTextPoints(points: TextPoints, count: number): TextPoints {
+  if (points.length === 0) {
+    return [];
+  }
+  const step = points.length / count;
+  return Array.from({ length: count }, (_, index) => points[Math.floor(index * step) % points.length]);
+}
@@ -0,0 +1,37 @@
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { createInputRouter } from "./inputRouter";
+import type { InputAction, InputBindings, InputRouter, InputSource } from "./inputRouter";
+
+export const InputContext = createContext<InputRouter | null>(null);
+
+/** Owns one router listening to the window for the lifetime of the calling component. */
+export function useCreateInputRouter(bindings?: Partial<InputBindings>) {
+  const [router] = useState(() => createInputRouter());
+  useEffect(() => router.attach(window), [router]);
+  useEffect(() => {
+    if (bindings) {
+      router.rebind(bindings);
+    }
+  }, [bindings, router]);
+  return router;
+}
+
+export function useInputRouter(): InputRouter {
+  const router = useContext(InputContext);
+  if (!router) {
+    throw new Error("useInputRouter must be used inside an InputContext provider");
+  }
+  return router;
+}
+
+/** Subscribes to an input action for the lifetime of the component. */
+export function useInputAction(action: InputAction, handler: (source: InputSource) => void) {
+  const router = useInputRouter();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => router.on(action, (source) => handlerRef.current(source)), [router, action]);
+}
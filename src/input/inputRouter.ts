@@ -0,0 +1,190 @@
+import { createEventBus } from "../experience/eventBus";
+
+/**
+ * What the visitor means, independent of how they said it. Keys, taps,
+ * gamepad buttons and the microphone are all mapped onto these, and
+ * components subscribe to actions rather than to raw DOM events.
+ */
+export type InputAction =
+  | "start"
+  | "blow"
+  | "next"
+  | "back"
+  | "inspectNext"
+  | "closeInspection";
+
+export const INPUT_ACTIONS: ReadonlyArray<InputAction> = [
+  "start",
+  "blow",
+  "next",
+  "back",
+  "inspectNext",
+  "closeInspection",
+];
+
+export const isInputAction = (value: unknown): value is InputAction =>
+  typeof value === "string" && (INPUT_ACTIONS as string[]).includes(value);
+
+export type InputSource = "keyboard" | "pointer" | "touch" | "gamepad" | "microphone";
+
+export type InputBindings = {
+  /** `KeyboardEvent.code` to the actions it triggers. */
+  keys: Record<string, InputAction[]>;
+  /** Button index on a standard-mapping gamepad to the actions it triggers. */
+  gamepad: Record<number, InputAction[]>;
+};
+
+// One press can mean several things; each action is ignored outside the
+// moments it applies to, so Space starts the greeting and later blows.
+// Gamepads do not start it: a pad press is not a user gesture, and the
+// music and sound effects need one.
+export const DEFAULT_BINDINGS: InputBindings = {
+  keys: {
+    Space: ["start", "blow"],
+    Enter: ["start"],
+    ArrowRight: ["next"],
+    ArrowLeft: ["back"],
+    KeyI: ["inspectNext"],
+    Escape: ["closeInspection"],
+  },
+  gamepad: {
+    0: ["blow"], // A / cross
+    1: ["closeInspection"], // B / circle
+    3: ["inspectNext"], // Y / triangle
+    14: ["back"], // d-pad left
+    15: ["next"], // d-pad right
+  },
+};
+
+export type InputRouter = {
+  dispatch: (action: InputAction, source: InputSource) => void;
+  /** Returns an unsubscribe function, so it can be returned straight from an effect. */
+  on: (action: InputAction, handler: (source: InputSource) => void) => () => void;
+  bindings: () => InputBindings;
+  /** Replaces the actions of the listed keys and buttons; an empty list unbinds one. */
+  rebind: (changes: Partial<InputBindings>) => void;
+  /** Listens to the keyboard and gamepads; returns a function that stops. */
+  attach: (target: Window) => () => void;
+};
+
+const BUTTONS = "button, a, [role='button']";
+
+// Keys typed into a field, or that activate a button reached with the keyboard,
+// belong to that element. A button that only has focus because it was clicked
+// does not keep Space and Enter from the greeting.
+function ownsKey(target: EventTarget | null, code: string, clicked: Element | null) {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  if (target.isContentEditable || target.closest("input, textarea, select")) {
+    return true;
+  }
+  const button = target.closest(BUTTONS);
+  return (code === "Space" || code === "Enter") && button !== null && button !== clicked;
+}
+
+export function createInputRouter(initial: InputBindings = DEFAULT_BINDINGS): InputRouter {
+  const bus = createEventBus<Record<InputAction, InputSource>>();
+  let bindings: InputBindings = {
+    keys: { ...initial.keys },
+    gamepad: { ...initial.gamepad },
+  };
+
+  const dispatchAll = (actions: InputAction[] | undefined, source: InputSource) =>
+    actions?.forEach((action) => bus.emit(action, source));
+
+  const attachGamepads = (target: Window) => {
+    // Gamepads have no button events, so connected pads are polled every frame.
+    const pressed = new Map<number, boolean[]>();
+    let frame = 0;
+
+    const poll = () => {
+      const pads = target.navigator.getGamepads?.() ?? [];
+      let connected = 0;
+      for (const pad of pads) {
+        if (!pad) continue;
+        connected++;
+        const before = pressed.get(pad.index) ?? [];
+        const now = pad.buttons.map((button) => button.pressed);
+        now.forEach((isDown, button) => {
+          if (isDown && !before[button]) {
+            dispatchAll(bindings.gamepad[button], "gamepad");
+          }
+        });
+        pressed.set(pad.index, now);
+      }
+      frame = connected > 0 ? target.requestAnimationFrame(poll) : 0;
+    };
+
+    const handleConnected = () => {
+      if (frame === 0) {
+        frame = target.requestAnimationFrame(poll);
+      }
+    };
+    const handleDisconnected = (event: GamepadEvent) => pressed.delete(event.gamepad.index);
+
+    target.addEventListener("gamepadconnected", handleConnected);
+    target.addEventListener("gamepaddisconnected", handleDisconnected);
+    handleConnected();
+    return () => {
+      target.removeEventListener("gamepadconnected", handleConnected);
+      target.removeEventListener("gamepaddisconnected", handleDisconnected);
+      target.cancelAnimationFrame(frame);
+    };
+  };
+
+  return {
+    dispatch(action, source) {
+      bus.emit(action, source);
+    },
+    on(action, handler) {
+      return bus.on(action, handler);
+    },
+    bindings() {
+      return bindings;
+    },
+    rebind(changes) {
+      bindings = {
+        keys: { ...bindings.keys, ...changes.keys },
+        gamepad: { ...bindings.gamepad, ...changes.gamepad },
+      };
+    },
+    attach(target) {
+      let clicked: Element | null = null;
+      const handlePointerDown = (event: PointerEvent) => {
+        clicked = event.target instanceof Element ? event.target.closest(BUTTONS) : null;
+      };
+      // Focus moving anywhere else, e.g. with Tab, hands the keys back to buttons.
+      const handleFocusIn = (event: FocusEvent) => {
+        if (event.target !== clicked) {
+          clicked = null;
+        }
+      };
+      const handleKeyDown = (event: KeyboardEvent) => {
+        const actions = bindings.keys[event.code];
+        if (
+          !actions?.length ||
+          event.ctrlKey ||
+          event.metaKey ||
+          event.altKey ||
+          ownsKey(event.target, event.code, clicked)
+        ) {
+          return;
+        }
+        event.preventDefault();
+        dispatchAll(actions, "keyboard");
+      };
+
+      target.addEventListener("pointerdown", handlePointerDown, true);
+      target.addEventListener("focusin", handleFocusIn);
+      target.addEventListener("keydown", handleKeyDown);
+      const detachGamepads = attachGamepads(target);
+      return () => {
+        target.removeEventListener("pointerdown", handlePointerDown, true);
+        target.removeEventListener("focusin", handleFocusIn);
+        target.removeEventListener("keydown", handleKeyDown);
+        detachGamepads();
+      };
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from "react";
+
+const COARSE_POINTER = "(pointer: coarse)";
+
+const subscribe = (onChange: () => void) => {
+  const media = window.matchMedia(COARSE_POINTER);
+  media.addEventListener("change", onChange);
+  return () => media.removeEventListener("change", onChange);
+};
+
+const isCoarse = () => window.matchMedia(COARSE_POINTER).matches;
+
+/** True on touch-first devices, where hints should talk about taps rather than keys. */
+export function useCoarsePointer(): boolean {
+  return useSyncExternalStore(subscribe, isCoarse);
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from "react";
+
+/* ─── tuning knobs ─── */
+const SWIPE_DISTANCE = 80; // pixels the finger has to travel upward
+const SWIPE_TIME = 600;    // ms; slower drags are left to the camera
+const SWIPE_SLANT = 0.6;   // sideways travel allowed per pixel of upward travel
+
+/** Calls `onSwipe` when a finger flicks upward anywhere on the page. Mouse drags are ignored. */
+export function useSwipeUp(onSwipe: () => void, enabled = true) {
+  const onSwipeRef = useRef(onSwipe);
+
+  useEffect(() => {
+    onSwipeRef.current = onSwipe;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const starts = new Map<number, { x: number; y: number; time: number }>();
+
+    const handleDown = (event: PointerEvent) => {
+      if (event.pointerType === "touch") {
+        starts.set(event.pointerId, { x: event.clientX, y: event.clientY, time: event.timeStamp });
+      }
+    };
+
+    const handleUp = (event: PointerEvent) => {
+      const start = starts.get(event.pointerId);
+      starts.delete(event.pointerId);
+      // A second finger means a pinch, not a swipe.
+      if (!start || starts.size > 0) {
+        return;
+      }
+      const rise = start.y - event.clientY;
+      if (
+        rise >= SWIPE_DISTANCE &&
+        Math.abs(event.clientX - start.x) <= rise * SWIPE_SLANT &&
+        event.timeStamp - start.time <= SWIPE_TIME
+      ) {
+        onSwipeRef.current();
+      }
+    };
+
+    const handleCancel = (event: PointerEvent) => starts.delete(event.pointerId);
+
+    window.addEventListener("pointerdown", handleDown);
+    window.addEventListener("pointerup", handleUp);
+    window.addEventListener("pointercancel", handleCancel);
+    return () => {
+      window.removeEventListener("pointerdown", handleDown);
+      window.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("pointercancel", handleCancel);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,347 @@
+import { useCursor } from "@react-three/drei";
+import { useFrame, useThree } from "@react-three/fiber";
+import type { ThreeEvent } from "@react-three/fiber";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Euler, Group, Object3D, Quaternion, Vector3 } from "three";
+import type { Vec3 } from "../scene/manifest";
+
+export type InspectableOptions = {
+  id: string;
+  tablePosition: Vec3;
+  tableRotation: Vec3;
+  isActive: boolean;
+  onToggle: (id: string) => void;
+  onDragChange?: (isDragging: boolean) => void;
+  /** How far in front of the camera the object floats while inspected. */
+  cameraDistance: number;
+  /** Added to the inspected position, e.g. to keep a tall object's middle in view. */
+  cameraOffset?: Vec3;
+  /** Lowest height the inspected object may float at. */
+  minHeight?: number;
+  /** For models whose front looks down -Z; they are turned around to face the camera. */
+  facesAway?: boolean;
+};
+
+/* ─── tuning knobs ─── */
+const HOVER_LIFT = 0.04;
+const DRAG_THRESHOLD = 2;                        // pixels a press may move and still count as a click
+const DRAG_SENSITIVITY = 0.012;                  // radians per pixel
+const INERTIA_DAMPING = 4;                       // per second; how quickly a flicked object stops
+const FLICK_WINDOW = 80;                         // ms; releasing after holding still this long throws nothing
+const ZOOM_RANGE: [number, number] = [0.5, 1.8]; // multiplies the camera distance
+const WHEEL_ZOOM = 0.001;                        // per pixel of wheel delta
+const DOUBLE_CLICK_WINDOW = 250;                 // ms; a second click within it resets instead of closing
+const FOLLOW_RATE = 12;
+const TURN_RATE = 10;
+
+const clampZoom = (zoom: number) => Math.min(ZOOM_RANGE[1], Math.max(ZOOM_RANGE[0], zoom));
+
+/**
+ * Shared behaviour for table objects that can be picked up and looked at:
+ * a hover lift, flying in front of the camera when active, drag-to-rotate
+ * with inertia, wheel and pinch zoom, a double click that resets the
+ * orientation, and easing back to the table pose when closed. Put `ref` on
+ * the object's outer group and spread `handlers` on whatever takes clicks.
+ */
+export function useInspectable({
+  id,
+  tablePosition,
+  tableRotation,
+  isActive,
+  onToggle,
+  onDragChange,
+  cameraDistance,
+  cameraOffset,
+  minHeight,
+  facesAway = false,
+}: InspectableOptions) {
+  const ref = useRef<Group>(null);
+  const { camera } = useThree();
+  const [isHovered, setIsHovered] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  useCursor(isHovered && !isActive, "pointer");
+  useCursor(isActive && !isDragging, "grab");
+  useCursor(isDragging, "grabbing");
+
+  // Pointer and view state lives in a ref: it changes on every pointer move.
+  const view = useRef({
+    yaw: 0,
+    pitch: 0,
+    yawVelocity: 0,
+    pitchVelocity: 0,
+    zoom: 1,
+    pointers: new Map<number, { x: number; y: number }>(),
+    pinchDistance: 0,
+    lastMove: 0,
+    hasDragged: false,
+    dragging: false,
+    pendingClose: null as number | null,
+  });
+  const latest = useRef({ id, onToggle, onDragChange });
+  useEffect(() => {
+    latest.current = { id, onToggle, onDragChange };
+  });
+
+  const tablePose = useMemo(
+    () => ({
+      position: new Vector3(...tablePosition),
+      quaternion: new Quaternion().setFromEuler(new Euler(...tableRotation)),
+    }),
+    [tablePosition, tableRotation]
+  );
+
+  // A new table pose comes from the layout editor; jump to it rather than gliding.
+  useEffect(() => {
+    ref.current?.position.copy(tablePose.position);
+    ref.current?.quaternion.copy(tablePose.quaternion);
+  }, [tablePose]);
+
+  const resetView = useCallback(() => {
+    const state = view.current;
+    state.yaw = 0;
+    state.pitch = 0;
+    state.yawVelocity = 0;
+    state.pitchVelocity = 0;
+    state.zoom = 1;
+  }, []);
+
+  const endDrag = useCallback(() => {
+    const state = view.current;
+    state.pointers.clear();
+    state.pinchDistance = 0;
+    if (state.dragging) {
+      state.dragging = false;
+      setIsDragging(false);
+      latest.current.onDragChange?.(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isActive) {
+      setIsHovered(false);
+      resetView();
+      endDrag();
+      view.current.hasDragged = false;
+      // Closed some other way during a double-click window: the pending close must not reopen it.
+      if (view.current.pendingClose !== null) {
+        window.clearTimeout(view.current.pendingClose);
+        view.current.pendingClose = null;
+      }
+      return;
+    }
+
+    const state = view.current;
+    const pinchSpan = () => {
+      const [a, b] = [...state.pointers.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    // Fingers landing off the object still count toward a pinch.
+    const handleDown = (event: PointerEvent) => {
+      state.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      if (state.pointers.size === 2) {
+        state.pinchDistance = pinchSpan();
+      }
+    };
+
+    const handleMove = (event: PointerEvent) => {
+      const pointer = state.pointers.get(event.pointerId);
+      if (!pointer) return;
+      const deltaX = event.clientX - pointer.x;
+      const deltaY = event.clientY - pointer.y;
+      pointer.x = event.clientX;
+      pointer.y = event.clientY;
+
+      if (state.pointers.size >= 2) {
+        const span = pinchSpan();
+        if (state.pinchDistance > 0 && span > 0) {
+          state.zoom = clampZoom((state.zoom * state.pinchDistance) / span);
+        }
+        state.pinchDistance = span;
+        state.hasDragged = true;
+        return;
+      }
+      if (!state.dragging) return;
+
+      if (Math.abs(deltaX) > DRAG_THRESHOLD || Math.abs(deltaY) > DRAG_THRESHOLD) {
+        state.hasDragged = true;
+      }
+      const seconds = Math.max((event.timeStamp - state.lastMove) / 1000, 1 / 120);
+      state.yaw += deltaX * DRAG_SENSITIVITY;
+      state.pitch -= deltaY * DRAG_SENSITIVITY;
+      state.yawVelocity = (deltaX * DRAG_SENSITIVITY) / seconds;
+      state.pitchVelocity = (-deltaY * DRAG_SENSITIVITY) / seconds;
+      state.lastMove = event.timeStamp;
+    };
+
+    const handleUp = (event: PointerEvent) => {
+      state.pointers.delete(event.pointerId);
+      state.pinchDistance = 0;
+      if (event.timeStamp - state.lastMove > FLICK_WINDOW) {
+        state.yawVelocity = 0;
+        state.pitchVelocity = 0;
+      }
+      if (state.pointers.size === 0) {
+        endDrag();
+      }
+    };
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      state.zoom = clampZoom(state.zoom * Math.exp(event.deltaY * WHEEL_ZOOM));
+    };
+
+    window.addEventListener("pointerdown", handleDown);
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    window.addEventListener("pointercancel", handleUp);
+    window.addEventListener("wheel", handleWheel, { passive: false });
+    return () => {
+      window.removeEventListener("pointerdown", handleDown);
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("pointercancel", handleUp);
+      window.removeEventListener("wheel", handleWheel);
+    };
+  }, [endDrag, isActive, resetView]);
+
+  useEffect(
+    () => () => {
+      if (view.current.pendingClose !== null) {
+        window.clearTimeout(view.current.pendingClose);
+      }
+    },
+    []
+  );
+
+  const scratch = useMemo(
+    () => ({
+      position: new Vector3(),
+      quaternion: new Quaternion(),
+      direction: new Vector3(),
+      offset: new Vector3(),
+      facing: new Object3D(),
+      user: new Quaternion(),
+      euler: new Euler(),
+      turnAround: new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), Math.PI),
+    }),
+    []
+  );
+
+  useFrame((_, delta) => {
+    const group = ref.current;
+    if (!group) return;
+
+    const state = view.current;
+    const { position, quaternion } = scratch;
+
+    if (isActive) {
+      if (!state.dragging) {
+        state.yaw += state.yawVelocity * delta;
+        state.pitch += state.pitchVelocity * delta;
+        const damping = Math.exp(-INERTIA_DAMPING * delta);
+        state.yawVelocity *= damping;
+        state.pitchVelocity *= damping;
+      }
+
+      camera.getWorldDirection(scratch.direction);
+      position
+        .copy(camera.position)
+        .addScaledVector(scratch.direction, cameraDistance * state.zoom);
+      if (cameraOffset) {
+        position.add(scratch.offset.fromArray(cameraOffset));
+      }
+      if (minHeight !== undefined && position.y < minHeight) {
+        position.y = minHeight;
+      }
+
+      scratch.facing.position.copy(position);
+      scratch.facing.lookAt(camera.position);
+      quaternion.copy(scratch.facing.quaternion);
+      if (facesAway) {
+        quaternion.multiply(scratch.turnAround);
+      }
+      quaternion.multiply(scratch.user.setFromEuler(scratch.euler.set(state.pitch, state.yaw, 0)));
+    } else {
+      position.copy(tablePose.position);
+      if (isHovered) {
+        position.y += HOVER_LIFT;
+      }
+      quaternion.copy(tablePose.quaternion);
+    }
+
+    group.position.lerp(position, 1 - Math.exp(-delta * FOLLOW_RATE));
+    group.quaternion.slerp(quaternion, 1 - Math.exp(-delta * TURN_RATE));
+  });
+
+  const onPointerOver = useCallback(
+    (event: ThreeEvent<PointerEvent>) => {
+      event.stopPropagation();
+      if (!isActive) {
+        setIsHovered(true);
+      }
+    },
+    [isActive]
+  );
+
+  const onPointerOut = useCallback((event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    setIsHovered(false);
+  }, []);
+
+  const onPointerDown = useCallback(
+    (event: ThreeEvent<PointerEvent>) => {
+      event.stopPropagation();
+      if (!isActive) return;
+
+      // Keep the orbit controls, and the window listener above, out of it.
+      event.nativeEvent.stopImmediatePropagation();
+      event.nativeEvent.preventDefault();
+
+      const state = view.current;
+      state.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      if (state.pointers.size > 1) return;
+      state.dragging = true;
+      state.hasDragged = false;
+      state.yawVelocity = 0;
+      state.pitchVelocity = 0;
+      state.lastMove = event.nativeEvent.timeStamp;
+      setIsDragging(true);
+      latest.current.onDragChange?.(true);
+    },
+    [isActive]
+  );
+
+  const onClick = useCallback(
+    (event: ThreeEvent<MouseEvent>) => {
+      event.stopPropagation();
+      const state = view.current;
+      if (state.hasDragged) {
+        state.hasDragged = false;
+        return;
+      }
+      if (!isActive) {
+        onToggle(id);
+        return;
+      }
+      if (state.pendingClose !== null) {
+        window.clearTimeout(state.pendingClose);
+        state.pendingClose = null;
+        resetView();
+        return;
+      }
+      state.pendingClose = window.setTimeout(() => {
+        state.pendingClose = null;
+        latest.current.onToggle(latest.current.id);
+      }, DOUBLE_CLICK_WINDOW);
+    },
+    [id, isActive, onToggle, resetView]
+  );
+
+  return {
+    ref,
+    isHovered,
+    handlers: { onPointerOver, onPointerOut, onPointerDown, onClick },
+  };
+}
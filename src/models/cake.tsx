@@ -1,15 +1,25 @@
 import { useLoader } from "@react-three/fiber";
 import type { ThreeElements } from "@react-three/fiber";
-import { useMemo } from "react";
+import { useEffect, useMemo } from "react";
+import { Box3 } from "three";
 import type { Group } from "three";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
 
-type CakeProps = ThreeElements["group"];
+type CakeProps = ThreeElements["group"] & {
+  /** Called with the model's bounds in the cake group's own space once it has loaded. */
+  onMeasure?: (bounds: Box3) => void;
+};
 
-export function Cake({ children, ...groupProps }: CakeProps) {
+export function Cake({ children, onMeasure, ...groupProps }: CakeProps) {
   const gltf = useLoader(GLTFLoader, "/cake.glb");
   const cakeScene = useMemo<Group | null>(() => gltf.scene?.clone(true) ?? null, [gltf.scene]);
 
+  useEffect(() => {
+    if (cakeScene) {
+      onMeasure?.(new Box3().setFromObject(cakeScene));
+    }
+  }, [cakeScene, onMeasure]);
+
   if (!cakeScene) {
     return null;
   }
@@ -5,11 +5,16 @@ import type { Group, Mesh, PointLight } from "three";
 import { DoubleSide, MathUtils, ShaderMaterial } from "three";
 import type { IUniform } from "three";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { SmokePlume } from "../components/SmokePlume";
 
-type CandleProps = ThreeElements["group"] & {
+type CandleFlameProps = {
   isLit?: boolean;
+  /** Breath on the flame from 0 to 1, read every frame; see `useBlowDetector`. */
+  breath?: () => number;
 };
 
+type CandleProps = ThreeElements["group"] & CandleFlameProps;
+
 type FlameUniforms = {
   time: IUniform<number>;
   strength: IUniform<number>;
@@ -82,9 +87,8 @@ const fragmentShader = `
   }
 `;
 
-export function Candle({ children, isLit = true, ...groupProps }: CandleProps) {
-  const gltf = useLoader(GLTFLoader, "/candle.glb");
-  const candleScene = useMemo<Group | null>(() => gltf.scene?.clone(true) ?? null, [gltf.scene]);
+/** Flame and its light, in candle model units: the wick tip sits at y = 2.5. */
+export function CandleFlame({ isLit = true, breath }: CandleFlameProps) {
   const lightRef = useRef<PointLight>(null);
   const flameMeshRef = useRef<Mesh>(null);
   const lightStrengthRef = useRef(isLit ? 1 : 0);
@@ -123,11 +127,13 @@ export function Candle({ children, isLit = true, ...groupProps }: CandleProps) {
   useFrame(({ clock }, delta) => {
     const elapsed = clock.elapsedTime;
     flameUniforms.time.value = elapsed;
-    const targetStrength = isLit ? 1 : 0;
+    // A gentle breath dims the flame and makes it gutter without putting it out.
+    const gust = isLit ? breath?.() ?? 0 : 0;
+    const targetStrength = isLit ? 1 - gust * 0.6 : 0;
     flameUniforms.strength.value = MathUtils.damp(
       flameUniforms.strength.value,
       targetStrength,
-      4,
+      4 + gust * 8,
       delta
     );
 
@@ -145,7 +151,8 @@ export function Candle({ children, isLit = true, ...groupProps }: CandleProps) {
     const flicker =
       Math.sin(elapsed * 10.0) * 0.08 +
       Math.sin(elapsed * 15.3) * 0.04 +
-      Math.sin(elapsed * 8.7) * 0.03;
+      Math.sin(elapsed * 8.7) * 0.03 +
+      Math.sin(elapsed * 31.0) * 0.2 * gust;
 
     const strength = flameUniforms.strength.value;
     light.intensity = Math.max(0, lightStrengthRef.current + flicker * strength * 0.5);
@@ -158,6 +165,23 @@ export function Candle({ children, isLit = true, ...groupProps }: CandleProps) {
     }
   });
 
+  return (
+    <>
+      <mesh ref={flameMeshRef} scale={0.4} position={[0, 2.9, 0]} material={flameMaterial}>
+        <sphereGeometry args={[0.5, 32, 32]} />
+      </mesh>
+      <pointLight ref={lightRef} distance={5} color="#ffffffff" decay={1} />
+      <group position={[0, 2.5, 0]}>
+        <SmokePlume active={!isLit} breath={breath} />
+      </group>
+    </>
+  );
+}
+
+export function Candle({ children, isLit = true, breath, ...groupProps }: CandleProps) {
+  const gltf = useLoader(GLTFLoader, "/candle.glb");
+  const candleScene = useMemo<Group | null>(() => gltf.scene?.clone(true) ?? null, [gltf.scene]);
+
   if (!candleScene) {
     return null;
   }
@@ -165,10 +189,7 @@ export function Candle({ children, isLit = true, ...groupProps }: CandleProps) {
   return (
     <group {...groupProps}>
       <primitive object={candleScene} />
-      <mesh ref={flameMeshRef} scale={0.4} position={[0, 2.9, 0]} material={flameMaterial}>
-        <sphereGeometry args={[0.5, 32, 32]} />
-      </mesh>
-      <pointLight ref={lightRef} distance={5} color="#ffffffff" decay={1} />
+      <CandleFlame isLit={isLit} breath={breath} />
       {children}
     </group>
   );
@@ -0,0 +1,79 @@
+import type { ThreeElements } from "@react-three/fiber";
+import { CandleFlame } from "./candle";
+
+type NumberCandleProps = ThreeElements["group"] & {
+  digit: number;
+  isLit?: boolean;
+  breath?: () => number;
+  color?: string;
+};
+
+const HEIGHT = 0.6;
+const WIDTH = 0.24;
+const BAR = 0.06;
+/** Scale that brings `CandleFlame`'s model units down to this candle's size. */
+const FLAME_SCALE = 0.25;
+const WICK_TIP_Y = 2.5;
+
+type Segment = "a" | "b" | "c" | "d" | "e" | "f" | "g";
+
+// Seven-segment layout: a top, b/c right, d bottom, e/f left, g middle.
+const DIGIT_SEGMENTS: Segment[][] = [
+  ["a", "b", "c", "d", "e", "f"],
+  ["b", "c"],
+  ["a", "b", "g", "e", "d"],
+  ["a", "b", "g", "c", "d"],
+  ["f", "g", "b", "c"],
+  ["a", "f", "g", "c", "d"],
+  ["a", "f", "g", "e", "c", "d"],
+  ["a", "b", "c"],
+  ["a", "b", "c", "d", "e", "f", "g"],
+  ["a", "b", "c", "d", "f", "g"],
+];
+
+const half = HEIGHT / 2;
+const SEGMENT_BOXES: Record<Segment, { position: [number, number, number]; size: [number, number, number] }> = {
+  a: { position: [0, HEIGHT - BAR / 2, 0], size: [WIDTH, BAR, BAR] },
+  b: { position: [WIDTH / 2 - BAR / 2, half + half / 2, 0], size: [BAR, half, BAR] },
+  c: { position: [WIDTH / 2 - BAR / 2, half / 2, 0], size: [BAR, half, BAR] },
+  d: { position: [0, BAR / 2, 0], size: [WIDTH, BAR, BAR] },
+  e: { position: [-WIDTH / 2 + BAR / 2, half / 2, 0], size: [BAR, half, BAR] },
+  f: { position: [-WIDTH / 2 + BAR / 2, half + half / 2, 0], size: [BAR, half, BAR] },
+  g: { position: [0, half, 0], size: [WIDTH, BAR, BAR] },
+};
+
+/** The wick goes on the highest segment, preferring the centre. */
+function wickX(segments: Segment[]) {
+  if (segments.includes("a")) {
+    return 0;
+  }
+  return segments.includes("b") ? SEGMENT_BOXES.b.position[0] : SEGMENT_BOXES.f.position[0];
+}
+
+/** A wax digit built from seven-segment bars, with a flame on top. */
+export function NumberCandle({
+  digit,
+  isLit = true,
+  breath,
+  color = "#f7c6d9",
+  ...groupProps
+}: NumberCandleProps) {
+  const segments = DIGIT_SEGMENTS[digit] ?? DIGIT_SEGMENTS[0];
+
+  return (
+    <group {...groupProps}>
+      {segments.map((segment) => (
+        <mesh key={segment} position={SEGMENT_BOXES[segment].position} castShadow>
+          <boxGeometry args={SEGMENT_BOXES[segment].size} />
+          <meshStandardMaterial color={color} roughness={0.6} />
+        </mesh>
+      ))}
+      <group
+        position={[wickX(segments), HEIGHT - WICK_TIP_Y * FLAME_SCALE, 0]}
+        scale={FLAME_SCALE}
+      >
+        <CandleFlame isLit={isLit} breath={breath} />
+      </group>
+    </group>
+  );
+}
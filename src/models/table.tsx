@@ -1,15 +1,25 @@
 import { useLoader } from "@react-three/fiber";
 import type { ThreeElements } from "@react-three/fiber";
-import { useMemo } from "react";
+import { useEffect, useMemo } from "react";
+import { Box3 } from "three";
 import type { Group } from "three";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
 
-type TableProps = ThreeElements["group"];
+type TableProps = ThreeElements["group"] & {
+  /** Called with the model's bounds in the table group's own space once it has loaded. */
+  onMeasure?: (bounds: Box3) => void;
+};
 
-export function Table({ children, ...groupProps }: TableProps) {
+export function Table({ children, onMeasure, ...groupProps }: TableProps) {
   const gltf = useLoader(GLTFLoader, "/table.glb");
   const tableScene = useMemo<Group | null>(() => gltf.scene?.clone(true) ?? null, [gltf.scene]);
 
+  useEffect(() => {
+    if (tableScene) {
+      onMeasure?.(new Box3().setFromObject(tableScene));
+    }
+  }, [tableScene, onMeasure]);
+
   if (!tableScene) {
     return null;
   }
@@ -0,0 +1,108 @@
+import type { CandlesConfig, CandleStyle, Vec3 } from "./manifest";
+
+export const CANDLE_STYLES: CandleStyle[] = ["classic", "number"];
+
+export const isCandleStyle = (value: unknown): value is CandleStyle =>
+  typeof value === "string" && (CANDLE_STYLES as string[]).includes(value);
+export const MAX_CANDLES = 40;
+
+/** Height of the cake top in the candle group's space. */
+export const CAKE_TOP_Y = 1.1;
+/** Used until the cake model has been measured. */
+export const DEFAULT_CAKE_TOP_RADIUS = 0.5;
+
+/** Classic candles at their default scale are about 0.12 wide; leave room for the flames. */
+const CANDLE_SPACING = 0.2;
+const CLASSIC_SCALE = 0.25;
+const EDGE_MARGIN = 0.12;
+const DIGIT_WIDTH = 0.3;
+
+export type CandlePlacement = {
+  position: Vec3;
+  scale: number;
+  /** Set for number-shaped candles. */
+  digit?: number;
+};
+
+export function resolveCandleCount(config: CandlesConfig | undefined) {
+  return Math.min(MAX_CANDLES, Math.max(1, config?.count ?? config?.age ?? 1));
+}
+
+const ringCapacity = (radius: number, spacing: number) =>
+  radius < spacing / 2 ? 1 : Math.max(1, Math.floor((2 * Math.PI * radius) / spacing));
+
+/** Candles fit on concentric rings at `spacing`, filling the outer ring first. */
+function ringRadii(count: number, topRadius: number, spacing: number) {
+  const rings: { radius: number; count: number }[] = [];
+  let remaining = count;
+  for (let radius = topRadius; remaining > 0 && radius >= 0; radius -= spacing) {
+    const capacity = ringCapacity(radius, spacing);
+    const placed = Math.min(capacity, remaining);
+    rings.push({ radius: capacity === 1 ? 0 : radius, count: placed });
+    remaining -= placed;
+    if (capacity === 1) {
+      break;
+    }
+  }
+  return remaining > 0 ? null : rings;
+}
+
+function layoutClassic(count: number, topRadius: number): CandlePlacement[] {
+  if (count === 1) {
+    return [{ position: [0, CAKE_TOP_Y, 0], scale: CLASSIC_SCALE }];
+  }
+  const usable = Math.max(CANDLE_SPACING, topRadius - EDGE_MARGIN);
+  // A handful of candles look better on one ring halfway out than crowding the edge.
+  const firstRadius = count <= 6 ? usable * 0.6 : usable;
+
+  // Shrink the candles until they all fit.
+  let spacing = CANDLE_SPACING;
+  let rings = ringRadii(count, firstRadius, spacing);
+  while (!rings) {
+    spacing *= 0.9;
+    rings = ringRadii(count, firstRadius, spacing);
+  }
+
+  const scale = CLASSIC_SCALE * (spacing / CANDLE_SPACING);
+  return rings.flatMap((ring, ringIndex) =>
+    Array.from({ length: ring.count }, (_, index) => {
+      // Offset alternate rings so candles do not line up radially.
+      const angle = ((index + (ringIndex % 2) * 0.5) / ring.count) * Math.PI * 2;
+      return {
+        position: [
+          Math.cos(angle) * ring.radius,
+          CAKE_TOP_Y,
+          Math.sin(angle) * ring.radius,
+        ] as Vec3,
+        scale,
+      };
+    })
+  );
+}
+
+function layoutDigits(value: number, topRadius: number): CandlePlacement[] {
+  const digits = String(value).split("").map(Number);
+  const width = digits.length * DIGIT_WIDTH;
+  const scale = Math.min(1, (topRadius * 1.6) / width);
+  return digits.map((digit, index) => ({
+    position: [((index + 0.5) * DIGIT_WIDTH - width / 2) * scale, CAKE_TOP_Y, 0],
+    scale,
+    digit,
+  }));
+}
+
+/** Where the candles stand on a cake whose top has radius `topRadius`. */
+export function layoutCandles(
+  config: CandlesConfig | undefined,
+  topRadius: number
+): CandlePlacement[] {
+  if (config?.style === "number") {
+    return layoutDigits(config.age ?? config.count ?? 1, topRadius);
+  }
+  return layoutClassic(resolveCandleCount(config), topRadius);
+}
+
+/** Number of candles `layoutCandles` produces, without needing the cake size. */
+export function countCandles(config: CandlesConfig | undefined) {
+  return layoutCandles(config, DEFAULT_CAKE_TOP_RADIUS).length;
+}
@@ -0,0 +1,170 @@
+import type { SceneManifest } from "./manifest";
+import { isThemeName } from "./themes";
+import type { ThemeName } from "./themes";
+import type { ManifestIssue } from "./validateManifest";
+
+/** Per-recipient settings carried in the URL hash and applied over scene.json. */
+export type GreetingOverrides = {
+  name?: string;
+  lines?: string[];
+  theme?: ThemeName;
+  /** Ids of the frames to keep on the table. */
+  frames?: string[];
+  /** Indexes into `letters` of the letters to keep in the overlay. */
+  letters?: number[];
+};
+
+/*
+ * Hash format: `#g<version><codec>.<payload>`.
+ *   version  bumped whenever the payload shape changes; older links keep decoding.
+ *   codec    `z` for deflate-raw compressed JSON, `j` for plain JSON where
+ *            CompressionStream is unavailable.
+ *   payload  base64url of the (compressed) JSON, using the short keys below.
+ */
+const LINK_VERSION = 1;
+const HASH_PATTERN = /^#?g(\d+)([zj])\.([A-Za-z0-9_-]+)$/;
+
+type CompactOverridesV1 = {
+  n?: string;
+  l?: string[];
+  t?: string;
+  f?: string[];
+  c?: number[];
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const supportsCompression = () =>
+  typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+async function pipeBytes(bytes: Uint8Array, transform: GenericTransformStream) {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toCompact(overrides: GreetingOverrides): CompactOverridesV1 {
+  const compact: CompactOverridesV1 = {};
+  if (overrides.name !== undefined) compact.n = overrides.name;
+  if (overrides.lines !== undefined) compact.l = overrides.lines;
+  if (overrides.theme !== undefined) compact.t = overrides.theme;
+  if (overrides.frames !== undefined) compact.f = overrides.frames;
+  if (overrides.letters !== undefined) compact.c = overrides.letters;
+  return compact;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+function fromCompactV1(value: unknown): GreetingOverrides | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return null;
+  }
+  const compact = value as Record<string, unknown>;
+  const overrides: GreetingOverrides = {};
+  if (typeof compact.n === "string" && compact.n.trim().length > 0) {
+    overrides.name = compact.n;
+  }
+  if (isStringArray(compact.l)) {
+    overrides.lines = compact.l;
+  }
+  if (isThemeName(compact.t)) {
+    overrides.theme = compact.t;
+  }
+  if (isStringArray(compact.f)) {
+    overrides.frames = compact.f;
+  }
+  if (Array.isArray(compact.c) && compact.c.every(Number.isInteger)) {
+    overrides.letters = compact.c as number[];
+  }
+  return overrides;
+}
+
+export async function encodeGreeting(overrides: GreetingOverrides): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(toCompact(overrides)));
+  if (supportsCompression()) {
+    const compressed = await pipeBytes(json, new CompressionStream("deflate-raw"));
+    return `g${LINK_VERSION}z.${toBase64Url(compressed)}`;
+  }
+  return `g${LINK_VERSION}j.${toBase64Url(json)}`;
+}
+
+/**
+ * Reads overrides from a location hash. Returns null when the hash holds no
+ * greeting, and also for malformed or unsupported links so a bad link still
+ * shows the default greeting; those add a warning to `issues`.
+ */
+export async function decodeGreeting(
+  hash: string,
+  issues: ManifestIssue[] = []
+): Promise<GreetingOverrides | null> {
+  const match = HASH_PATTERN.exec(hash);
+  if (!match) {
+    return null;
+  }
+  const [, version, codec, payload] = match;
+  if (Number(version) !== LINK_VERSION) {
+    issues.push({
+      path: "greeting link",
+      message: `unsupported version ${version}; showing the default greeting`,
+      severity: "warning",
+    });
+    return null;
+  }
+  try {
+    let bytes = fromBase64Url(payload);
+    if (codec === "z") {
+      bytes = await pipeBytes(bytes, new DecompressionStream("deflate-raw"));
+    }
+    return fromCompactV1(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch (error) {
+    issues.push({
+      path: "greeting link",
+      message: `could not be read (${error instanceof Error ? error.message : String(error)}); showing the default greeting`,
+      severity: "warning",
+    });
+    return null;
+  }
+}
+
+export async function createGreetingLink(
+  overrides: GreetingOverrides,
+  baseUrl: string = window.location.origin + window.location.pathname
+) {
+  return `${baseUrl}#${await encodeGreeting(overrides)}`;
+}
+
+export function applyGreetingOverrides(
+  manifest: SceneManifest,
+  overrides: GreetingOverrides
+): SceneManifest {
+  const frames = overrides.frames
+    ? manifest.frames.filter((frame) => overrides.frames!.includes(frame.id))
+    : manifest.frames;
+  const frameIds = new Set(frames.map((frame) => frame.id));
+
+  return {
+    ...manifest,
+    recipient: { ...manifest.recipient, name: overrides.name ?? manifest.recipient.name },
+    intro: { ...manifest.intro, lines: overrides.lines ?? manifest.intro.lines },
+    theme: overrides.theme ?? manifest.theme,
+    frames,
+    frameAudio: Object.fromEntries(
+      Object.entries(manifest.frameAudio).filter(([frameId]) => frameIds.has(frameId))
+    ),
+    letters: overrides.letters
+      ? manifest.letters.filter((_, index) => overrides.letters!.includes(index))
+      : manifest.letters,
+  };
+}
@@ -0,0 +1,141 @@
+import type { TimelineDefinition } from "../timeline/timeline";
+import type { ThemeName } from "./themes";
+import type { BeatMap } from "../audio/beatMap";
+import type { AmbientModeName } from "../ambient/ambientModes";
+import type { ConfettiConfig } from "../ambient/confetti";
+import type { ShellTypeName } from "../fireworks/shellTypes";
+import type { FireworksShow } from "../fireworks/show";
+import type { InputBindings } from "../input/inputRouter";
+
+export type Vec3 = [number, number, number];
+
+export type RecipientConfig = {
+  name: string;
+};
+
+export type IntroConfig = {
+  /** Lines typed out before the scene starts. `{name}` is replaced with the recipient name. */
+  lines: string[];
+  charDelay?: number;
+  postTypingDelay?: number;
+  /** Tracks merged over the default intro animation by id. */
+  timeline?: TimelineDefinition;
+};
+
+/** A looping track; times are in seconds. */
+export type AudioClipConfig = {
+  src: string;
+  /** Spoken when the clip starts; defaults to the file name. */
+  title?: string;
+  startAt?: number;
+  /** Loop region; defaults to the whole file. */
+  loopStart?: number;
+  loopEnd?: number;
+  fadeIn?: number;
+  fadeOut?: number;
+  volume?: number;
+  /** Beats the fireworks follow; without it they listen to the track live. */
+  beats?: BeatMap;
+};
+
+export type MusicConfig = AudioClipConfig;
+
+export type FrameAudioConfig = AudioClipConfig;
+
+export type FrameConfig = {
+  id: string;
+  image: string;
+  tablePosition: Vec3;
+  tableRotation: Vec3;
+  scale?: number;
+};
+
+export type BouquetConfig = {
+  id: string;
+  tablePosition: Vec3;
+  tableRotation: Vec3;
+  scale?: number;
+};
+
+export type BirthdayCardConfig = {
+  id: string;
+  image: string;
+  tablePosition: Vec3;
+  tableRotation: Vec3;
+  /** Render as a stack of letters that opens the letter overlay instead of a single card. */
+  stack?: boolean;
+};
+
+export type CandleStyle = "classic" | "number";
+
+export type CandlesConfig = {
+  /** How many classic candles to place; defaults to `age`, or a single candle. */
+  count?: number;
+  /** The recipient's age; `number` candles spell it out digit by digit. */
+  age?: number;
+  style?: CandleStyle;
+};
+
+export type FireworksConfig = {
+  /** Shell types mixed into the celebration; defaults to all of them. */
+  shells?: ShellTypeName[];
+  /** What text shells spell out; defaults to the recipient's name. */
+  text?: string;
+  /** A scripted show played in place of random launches. */
+  show?: FireworksShow;
+};
+
+export type LetterConfig = {
+  image: string;
+  rotation: number;
+  x: number;
+  y: number;
+};
+
+export type SceneManifest = {
+  recipient: RecipientConfig;
+  theme?: ThemeName;
+  /** What falls during the celebration; defaults to the theme's choice. */
+  ambient?: AmbientModeName;
+  /** Cannons that shoot confetti over the table as the candles go out. */
+  confetti?: ConfettiConfig;
+  intro: IntroConfig;
+  candles?: CandlesConfig;
+  fireworks?: FireworksConfig;
+  music: MusicConfig;
+  frames: FrameConfig[];
+  frameAudio: Record<string, FrameAudioConfig>;
+  bouquets: BouquetConfig[];
+  cards: BirthdayCardConfig[];
+  letters: LetterConfig[];
+  /** Extra or replacement key and gamepad bindings, merged over the defaults. */
+  input?: Partial<InputBindings>;
+};
+
+export const SCENE_MANIFEST_URL = "/scene.json";
+
+export const DEFAULT_CHAR_DELAY = 100;
+export const DEFAULT_POST_TYPING_DELAY = 1000;
+
+export function resolveIntroLines(manifest: SceneManifest): string[] {
+  return manifest.intro.lines.map((line) =>
+    line.split("{name}").join(manifest.recipient.name)
+  );
+}
+
+/** Loads the raw manifest JSON; run it through `validateSceneManifest` before use. */
+export async function fetchSceneManifest(
+  url: string = SCENE_MANIFEST_URL
+): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+  }
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new Error(
+      `${url} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import type { CSSProperties } from "react";
+import type { AmbientModeName } from "../ambient/ambientModes";
+
+export type ThemeName = "classic" | "rose" | "midnight";
+
+export type Theme = {
+  /** Page colour behind the transparent canvas. */
+  background: string;
+  text: string;
+  accent: string;
+  /** What falls during the celebration, unless the manifest picks one. */
+  ambient: AmbientModeName;
+};
+
+export const THEMES: Record<ThemeName, Theme> = {
+  classic: { background: "#0b0212", text: "#ffffff", accent: "#ff8fc7", ambient: "sparkles" },
+  rose: { background: "#1a0510", text: "#ffeef5", accent: "#ff5c8a", ambient: "petals" },
+  midnight: { background: "#020816", text: "#e8f1ff", accent: "#7fb4ff", ambient: "snow" },
+};
+
+export const DEFAULT_THEME: ThemeName = "classic";
+
+export const isThemeName = (value: unknown): value is ThemeName =>
+  typeof value === "string" && Object.hasOwn(THEMES, value);
+
+/** CSS custom properties consumed by App.css. */
+export function themeStyle(name: ThemeName | undefined): CSSProperties {
+  const theme = THEMES[name ?? DEFAULT_THEME];
+  return {
+    "--app-background": theme.background,
+    "--app-text": theme.text,
+    "--app-accent": theme.accent,
+  } as CSSProperties;
+}
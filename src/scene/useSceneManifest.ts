@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { applyGreetingOverrides, decodeGreeting } from "./greetingLink";
+import { fetchSceneManifest, SCENE_MANIFEST_URL } from "./manifest";
+import type { SceneManifest } from "./manifest";
+import {
+  isBlockingIssue,
+  probeManifestAssets,
+  validateSceneManifest,
+} from "./validateManifest";
+import type { ManifestIssue } from "./validateManifest";
+
+export type SceneManifestState =
+  | { status: "loading" }
+  | { status: "ready"; manifest: SceneManifest; warnings: ManifestIssue[] }
+  | { status: "invalid"; issues: ManifestIssue[] }
+  | { status: "error"; error: Error };
+
+export function useSceneManifest(url: string = SCENE_MANIFEST_URL) {
+  const [state, setState] = useState<SceneManifestState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async (): Promise<SceneManifestState> => {
+      const raw = await fetchSceneManifest(url);
+      const result = validateSceneManifest(raw);
+      if (!result.ok) {
+        return { status: "invalid", issues: result.issues };
+      }
+      const linkIssues: ManifestIssue[] = [];
+      const overrides = await decodeGreeting(window.location.hash, linkIssues);
+      const manifest = overrides
+        ? applyGreetingOverrides(result.manifest, overrides)
+        : result.manifest;
+      // Missing files otherwise only surface as a blank canvas, so check them up front while authoring.
+      if (import.meta.env.DEV) {
+        const missing = await probeManifestAssets(manifest);
+        if (missing.some(isBlockingIssue)) {
+          return { status: "invalid", issues: missing };
+        }
+        return { status: "ready", manifest, warnings: [...linkIssues, ...missing] };
+      }
+      return { status: "ready", manifest, warnings: linkIssues };
+    };
+
+    load()
+      .then((next) => {
+        if (!cancelled) {
+          setState(next);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setState({
+            status: "error",
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return state;
+}
@@ -0,0 +1,621 @@
+import type { SceneManifest } from "./manifest";
+import { isThemeName, THEMES } from "./themes";
+import { CANDLE_STYLES, isCandleStyle, MAX_CANDLES } from "./candleLayout";
+import { AMBIENT_MODE_NAMES, isAmbientModeName } from "../ambient/ambientModes";
+import { isPaletteName, PALETTE_NAMES } from "../fireworks/palettes";
+import { isShellTypeName, SHELL_TYPE_NAMES } from "../fireworks/shellTypes";
+import { isShowEnding, SHOW_ENDINGS } from "../fireworks/show";
+import { INPUT_ACTIONS, isInputAction } from "../input/inputRouter";
+import { isEasingName } from "../timeline/easing";
+import { DEFAULT_INTRO_TIMELINE, INTRO_TARGETS } from "../timeline/introTimeline";
+import { compileTimeline, mergeTimelines, TimelineError } from "../timeline/timeline";
+import type { TimelineDefinition } from "../timeline/timeline";
+
+export type ManifestIssue = {
+  /** Location of the problem, e.g. `frames[2].tablePosition[1]`. */
+  path: string;
+  message: string;
+  /** Errors stop the scene from rendering; warnings are listed but not fatal. Defaults to error. */
+  severity?: "error" | "warning";
+};
+
+export type ManifestValidationResult =
+  | { ok: true; manifest: SceneManifest; issues: [] }
+  | { ok: false; issues: ManifestIssue[] };
+
+type Issues = ManifestIssue[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `an array of ${value.length}`;
+  return `${typeof value} ${JSON.stringify(value)}`;
+};
+
+function expectRecord(value: unknown, path: string, issues: Issues) {
+  if (!isRecord(value)) {
+    issues.push({ path, message: `expected an object, got ${describe(value)}` });
+    return null;
+  }
+  return value;
+}
+
+function expectArray(value: unknown, path: string, issues: Issues) {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array, got ${describe(value)}` });
+    return null;
+  }
+  return value as unknown[];
+}
+
+function expectString(value: unknown, path: string, issues: Issues) {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    issues.push({ path, message: `expected a non-empty string, got ${describe(value)}` });
+    return false;
+  }
+  return true;
+}
+
+function expectNumber(
+  value: unknown,
+  path: string,
+  issues: Issues,
+  { optional = false, min }: { optional?: boolean; min?: number } = {}
+) {
+  if (value === undefined && optional) {
+    return true;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({ path, message: `expected a number, got ${describe(value)}` });
+    return false;
+  }
+  if (min !== undefined && value < min) {
+    issues.push({ path, message: `expected a number >= ${min}, got ${value}` });
+    return false;
+  }
+  return true;
+}
+
+function expectBoolean(value: unknown, path: string, issues: Issues) {
+  if (value !== undefined && typeof value !== "boolean") {
+    issues.push({ path, message: `expected true or false, got ${describe(value)}` });
+  }
+}
+
+function expectVec3(value: unknown, path: string, issues: Issues) {
+  if (!Array.isArray(value) || value.length !== 3) {
+    issues.push({
+      path,
+      message: `expected a [x, y, z] tuple, got ${describe(value)}`,
+    });
+    return;
+  }
+  value.forEach((component, index) =>
+    expectNumber(component, `${path}[${index}]`, issues)
+  );
+}
+
+function expectTrackValue(value: unknown, path: string, issues: Issues) {
+  if (Array.isArray(value)) {
+    expectVec3(value, path, issues);
+  } else {
+    expectNumber(value, path, issues);
+  }
+}
+
+function validateTimeline(value: unknown, path: string, issues: Issues) {
+  const timeline = expectRecord(value, path, issues);
+  if (!timeline) {
+    return;
+  }
+  const before = issues.length;
+  expectArray(timeline.tracks, `${path}.tracks`, issues)?.forEach((item, index) => {
+    const trackPath = `${path}.tracks[${index}]`;
+    const track = expectRecord(item, trackPath, issues);
+    if (!track) {
+      return;
+    }
+    expectString(track.id, `${trackPath}.id`, issues);
+    if (!(INTRO_TARGETS as readonly unknown[]).includes(track.target)) {
+      issues.push({
+        path: `${trackPath}.target`,
+        message: `unknown target ${describe(track.target)}; expected one of ${INTRO_TARGETS.join(", ")}`,
+      });
+    }
+    expectString(track.property, `${trackPath}.property`, issues);
+    if (track.start !== undefined && typeof track.start !== "number") {
+      const start = expectRecord(track.start, `${trackPath}.start`, issues);
+      if (start) {
+        const key = "after" in start ? "after" : "with";
+        expectString(start[key], `${trackPath}.start.${key}`, issues);
+        expectNumber(start.offset, `${trackPath}.start.offset`, issues, { optional: true });
+      }
+    }
+    if (track.initial !== undefined) {
+      expectTrackValue(track.initial, `${trackPath}.initial`, issues);
+    }
+    const keyframes = expectArray(track.keyframes, `${trackPath}.keyframes`, issues);
+    if (keyframes && keyframes.length === 0) {
+      issues.push({ path: `${trackPath}.keyframes`, message: "expected at least one keyframe" });
+    }
+    keyframes?.forEach((keyframeItem, keyframeIndex) => {
+      const keyframePath = `${trackPath}.keyframes[${keyframeIndex}]`;
+      const keyframe = expectRecord(keyframeItem, keyframePath, issues);
+      if (!keyframe) {
+        return;
+      }
+      expectNumber(keyframe.time, `${keyframePath}.time`, issues, { min: 0 });
+      expectTrackValue(keyframe.value, `${keyframePath}.value`, issues);
+      if (keyframe.easing !== undefined && !isEasingName(keyframe.easing)) {
+        issues.push({
+          path: `${keyframePath}.easing`,
+          message: `unknown easing ${describe(keyframe.easing)}`,
+        });
+      }
+    });
+  });
+
+  // Only resolve start references once every track is well-formed.
+  if (issues.length === before) {
+    try {
+      compileTimeline(mergeTimelines(DEFAULT_INTRO_TIMELINE, value as TimelineDefinition));
+    } catch (error) {
+      if (!(error instanceof TimelineError)) {
+        throw error;
+      }
+      issues.push({ path, message: error.message });
+    }
+  }
+}
+
+function expectUniqueId(
+  value: unknown,
+  path: string,
+  seen: Set<string>,
+  issues: Issues
+) {
+  if (!expectString(value, path, issues)) {
+    return;
+  }
+  const id = value as string;
+  if (seen.has(id)) {
+    issues.push({ path, message: `duplicate id "${id}"` });
+  }
+  seen.add(id);
+}
+
+function validateTableObject(
+  value: unknown,
+  path: string,
+  ids: Set<string>,
+  issues: Issues,
+  { needsImage }: { needsImage: boolean }
+) {
+  const entry = expectRecord(value, path, issues);
+  if (!entry) {
+    return null;
+  }
+  expectUniqueId(entry.id, `${path}.id`, ids, issues);
+  if (needsImage) {
+    expectString(entry.image, `${path}.image`, issues);
+  }
+  expectVec3(entry.tablePosition, `${path}.tablePosition`, issues);
+  expectVec3(entry.tableRotation, `${path}.tableRotation`, issues);
+  return entry;
+}
+
+function validateAudioClip(value: unknown, path: string, issues: Issues) {
+  const clip = expectRecord(value, path, issues);
+  if (!clip) {
+    return;
+  }
+  expectString(clip.src, `${path}.src`, issues);
+  if (clip.title !== undefined) {
+    expectString(clip.title, `${path}.title`, issues);
+  }
+  for (const key of ["startAt", "loopStart", "loopEnd", "fadeIn", "fadeOut", "volume"]) {
+    expectNumber(clip[key], `${path}.${key}`, issues, { optional: true, min: 0 });
+  }
+  if (
+    typeof clip.loopStart === "number" &&
+    typeof clip.loopEnd === "number" &&
+    clip.loopEnd <= clip.loopStart
+  ) {
+    issues.push({
+      path: `${path}.loopEnd`,
+      message: `expected the loop to end after loopStart (${clip.loopStart}), got ${clip.loopEnd}`,
+    });
+  }
+  if (clip.beats !== undefined) {
+    validateBeatMap(clip.beats, `${path}.beats`, issues);
+  }
+}
+
+function validateBeatMap(value: unknown, path: string, issues: Issues) {
+  const beats = expectRecord(value, path, issues);
+  if (!beats) {
+    return;
+  }
+  if (beats.times !== undefined) {
+    expectArray(beats.times, `${path}.times`, issues)?.forEach((time, index) =>
+      expectNumber(time, `${path}.times[${index}]`, issues, { min: 0 })
+    );
+    if (beats.strengths !== undefined) {
+      expectArray(beats.strengths, `${path}.strengths`, issues)?.forEach((strength, index) =>
+        expectNumber(strength, `${path}.strengths[${index}]`, issues, { min: 0 })
+      );
+    }
+    return;
+  }
+  if (expectNumber(beats.bpm, `${path}.bpm`, issues, { min: 1 })) {
+    expectNumber(beats.offset, `${path}.offset`, issues, { optional: true, min: 0 });
+    expectNumber(beats.accentEvery, `${path}.accentEvery`, issues, { optional: true, min: 1 });
+  }
+}
+
+function expectShellType(value: unknown, path: string, issues: Issues) {
+  if (!isShellTypeName(value)) {
+    issues.push({
+      path,
+      message: `unknown shell type ${describe(value)}; expected one of ${SHELL_TYPE_NAMES.join(", ")}`,
+    });
+  }
+}
+
+function expectUnitRange(value: unknown, path: string, issues: Issues, min: number) {
+  if (
+    expectNumber(value, path, issues, { optional: true, min }) &&
+    typeof value === "number" &&
+    value > 1
+  ) {
+    issues.push({ path, message: `expected a number from ${min} to 1, got ${value}` });
+  }
+}
+
+function validateShow(value: unknown, path: string, issues: Issues) {
+  const show = expectRecord(value, path, issues);
+  if (!show) {
+    return;
+  }
+  expectArray(show.cues, `${path}.cues`, issues)?.forEach((item, index) => {
+    const cuePath = `${path}.cues[${index}]`;
+    const cue = expectRecord(item, cuePath, issues);
+    if (!cue) {
+      return;
+    }
+    expectNumber(cue.at, `${cuePath}.at`, issues, { min: 0 });
+    if (cue.shell !== undefined) {
+      expectShellType(cue.shell, `${cuePath}.shell`, issues);
+    }
+    expectUnitRange(cue.position, `${cuePath}.position`, issues, -1);
+    expectUnitRange(cue.altitude, `${cuePath}.altitude`, issues, 0);
+    if (cue.palette !== undefined && !isPaletteName(cue.palette)) {
+      issues.push({
+        path: `${cuePath}.palette`,
+        message: `unknown palette ${describe(cue.palette)}; expected one of ${PALETTE_NAMES.join(", ")}`,
+      });
+    }
+    if (
+      expectNumber(cue.count, `${cuePath}.count`, issues, { optional: true, min: 1 }) &&
+      cue.count !== undefined &&
+      !Number.isInteger(cue.count)
+    ) {
+      issues.push({ path: `${cuePath}.count`, message: `expected a whole number, got ${cue.count}` });
+    }
+    expectNumber(cue.spread, `${cuePath}.spread`, issues, { optional: true, min: 0 });
+    expectNumber(cue.stagger, `${cuePath}.stagger`, issues, { optional: true, min: 0 });
+    expectBoolean(cue.finale, `${cuePath}.finale`, issues);
+  });
+  expectNumber(show.seed, `${path}.seed`, issues, { optional: true });
+  if (show.then !== undefined && !isShowEnding(show.then)) {
+    issues.push({
+      path: `${path}.then`,
+      message: `unknown show ending ${describe(show.then)}; expected one of ${SHOW_ENDINGS.join(", ")}`,
+    });
+  }
+}
+
+function validateFireworks(value: unknown, path: string, issues: Issues) {
+  const fireworks = expectRecord(value, path, issues);
+  if (!fireworks) {
+    return;
+  }
+  if (fireworks.shells !== undefined) {
+    expectArray(fireworks.shells, `${path}.shells`, issues)?.forEach((shell, index) =>
+      expectShellType(shell, `${path}.shells[${index}]`, issues)
+    );
+  }
+  if (fireworks.text !== undefined) {
+    expectString(fireworks.text, `${path}.text`, issues);
+  }
+  if (fireworks.show !== undefined) {
+    validateShow(fireworks.show, `${path}.show`, issues);
+  }
+}
+
+function validateConfetti(value: unknown, path: string, issues: Issues) {
+  const confetti = expectRecord(value, path, issues);
+  if (!confetti) {
+    return;
+  }
+  if (confetti.cannons !== undefined) {
+    expectArray(confetti.cannons, `${path}.cannons`, issues)?.forEach((item, index) => {
+      const cannonPath = `${path}.cannons[${index}]`;
+      const cannon = expectRecord(item, cannonPath, issues);
+      if (!cannon) {
+        return;
+      }
+      expectVec3(cannon.position, `${cannonPath}.position`, issues);
+      if (cannon.direction !== undefined) {
+        expectVec3(cannon.direction, `${cannonPath}.direction`, issues);
+      }
+    });
+  }
+  if (confetti.colors !== undefined) {
+    const colors = expectArray(confetti.colors, `${path}.colors`, issues);
+    colors?.forEach((color, index) => expectString(color, `${path}.colors[${index}]`, issues));
+    if (colors && colors.length === 0) {
+      issues.push({ path: `${path}.colors`, message: "expected at least one color" });
+    }
+  }
+  if (
+    expectNumber(confetti.pieces, `${path}.pieces`, issues, { optional: true, min: 1 }) &&
+    confetti.pieces !== undefined &&
+    !Number.isInteger(confetti.pieces)
+  ) {
+    issues.push({ path: `${path}.pieces`, message: `expected a whole number, got ${confetti.pieces}` });
+  }
+}
+
+function validateInput(value: unknown, path: string, issues: Issues) {
+  const input = expectRecord(value, path, issues);
+  if (!input) {
+    return;
+  }
+  for (const device of ["keys", "gamepad"] as const) {
+    if (input[device] === undefined) {
+      continue;
+    }
+    const bindings = expectRecord(input[device], `${path}.${device}`, issues);
+    for (const [control, actions] of Object.entries(bindings ?? {})) {
+      const bindingPath = `${path}.${device}.${control}`;
+      if (device === "gamepad" && !/^\d+$/.test(control)) {
+        issues.push({ path: bindingPath, message: "expected a gamepad button index" });
+      }
+      expectArray(actions, bindingPath, issues)?.forEach((action, index) => {
+        if (!isInputAction(action)) {
+          issues.push({
+            path: `${bindingPath}[${index}]`,
+            message: `unknown action ${describe(action)}; expected one of ${INPUT_ACTIONS.join(", ")}`,
+          });
+        } else if (device === "gamepad" && action === "start") {
+          issues.push({
+            path: `${bindingPath}[${index}]`,
+            message: "browsers do not let a gamepad press start sound, so the greeting would play silently",
+            severity: "warning",
+          });
+        }
+      });
+    }
+  }
+}
+
+function validateCandles(value: unknown, path: string, issues: Issues) {
+  const candles = expectRecord(value, path, issues);
+  if (!candles) {
+    return;
+  }
+  for (const key of ["count", "age"] as const) {
+    const count = candles[key];
+    if (
+      expectNumber(count, `${path}.${key}`, issues, { optional: true, min: 1 }) &&
+      count !== undefined &&
+      !Number.isInteger(count)
+    ) {
+      issues.push({ path: `${path}.${key}`, message: `expected a whole number, got ${count}` });
+    }
+  }
+  if (typeof candles.count === "number" && candles.count > MAX_CANDLES) {
+    issues.push({
+      path: `${path}.count`,
+      message: `at most ${MAX_CANDLES} candles fit on the cake, got ${candles.count}`,
+    });
+  }
+  if (candles.style !== undefined && !isCandleStyle(candles.style)) {
+    issues.push({
+      path: `${path}.style`,
+      message: `unknown candle style ${describe(candles.style)}; expected one of ${CANDLE_STYLES.join(", ")}`,
+    });
+  }
+}
+
+/**
+ * Checks an untrusted scene manifest and collects every problem rather than
+ * stopping at the first, so authors can fix a config in one pass.
+ */
+export function validateSceneManifest(input: unknown): ManifestValidationResult {
+  const issues: Issues = [];
+  const root = expectRecord(input, "$", issues);
+  if (!root) {
+    return { ok: false, issues };
+  }
+
+  const recipient = expectRecord(root.recipient, "recipient", issues);
+  if (recipient) {
+    expectString(recipient.name, "recipient.name", issues);
+  }
+
+  if (root.theme !== undefined && !isThemeName(root.theme)) {
+    issues.push({
+      path: "theme",
+      message: `unknown theme ${describe(root.theme)}; expected one of ${Object.keys(THEMES).join(", ")}`,
+    });
+  }
+
+  if (root.ambient !== undefined && !isAmbientModeName(root.ambient)) {
+    issues.push({
+      path: "ambient",
+      message: `unknown ambient mode ${describe(root.ambient)}; expected one of ${AMBIENT_MODE_NAMES.join(", ")}`,
+    });
+  }
+
+  const intro = expectRecord(root.intro, "intro", issues);
+  if (intro) {
+    const lines = expectArray(intro.lines, "intro.lines", issues);
+    lines?.forEach((line, index) => {
+      if (typeof line !== "string") {
+        issues.push({
+          path: `intro.lines[${index}]`,
+          message: `expected a string, got ${describe(line)}`,
+        });
+      }
+    });
+    expectNumber(intro.charDelay, "intro.charDelay", issues, { optional: true, min: 0 });
+    expectNumber(intro.postTypingDelay, "intro.postTypingDelay", issues, {
+      optional: true,
+      min: 0,
+    });
+    if (intro.timeline !== undefined) {
+      validateTimeline(intro.timeline, "intro.timeline", issues);
+    }
+  }
+
+  if (root.candles !== undefined) {
+    validateCandles(root.candles, "candles", issues);
+  }
+
+  if (root.fireworks !== undefined) {
+    validateFireworks(root.fireworks, "fireworks", issues);
+  }
+
+  if (root.confetti !== undefined) {
+    validateConfetti(root.confetti, "confetti", issues);
+  }
+
+  if (root.input !== undefined) {
+    validateInput(root.input, "input", issues);
+  }
+
+  validateAudioClip(root.music, "music", issues);
+
+  const frameIds = new Set<string>();
+  expectArray(root.frames, "frames", issues)?.forEach((frame, index) => {
+    const entry = validateTableObject(frame, `frames[${index}]`, frameIds, issues, {
+      needsImage: true,
+    });
+    if (entry) {
+      expectNumber(entry.scale, `frames[${index}].scale`, issues, { optional: true, min: 0 });
+    }
+  });
+
+  const frameAudio = expectRecord(root.frameAudio, "frameAudio", issues);
+  if (frameAudio) {
+    for (const [frameId, audio] of Object.entries(frameAudio)) {
+      const path = `frameAudio.${frameId}`;
+      if (!frameIds.has(frameId)) {
+        issues.push({
+          path,
+          message: `unknown frame id "${frameId}"${
+            frameIds.size > 0 ? `; known frames are ${[...frameIds].join(", ")}` : ""
+          }`,
+        });
+      }
+      validateAudioClip(audio, path, issues);
+    }
+  }
+
+  const bouquetIds = new Set<string>();
+  expectArray(root.bouquets, "bouquets", issues)?.forEach((bouquet, index) => {
+    const entry = validateTableObject(bouquet, `bouquets[${index}]`, bouquetIds, issues, {
+      needsImage: false,
+    });
+    if (entry) {
+      expectNumber(entry.scale, `bouquets[${index}].scale`, issues, { optional: true, min: 0 });
+    }
+  });
+
+  const cardIds = new Set<string>();
+  expectArray(root.cards, "cards", issues)?.forEach((card, index) => {
+    const entry = validateTableObject(card, `cards[${index}]`, cardIds, issues, {
+      needsImage: true,
+    });
+    if (entry) {
+      expectBoolean(entry.stack, `cards[${index}].stack`, issues);
+    }
+  });
+
+  expectArray(root.letters, "letters", issues)?.forEach((letter, index) => {
+    const path = `letters[${index}]`;
+    const entry = expectRecord(letter, path, issues);
+    if (entry) {
+      expectString(entry.image, `${path}.image`, issues);
+      expectNumber(entry.rotation, `${path}.rotation`, issues);
+      expectNumber(entry.x, `${path}.x`, issues);
+      expectNumber(entry.y, `${path}.y`, issues);
+    }
+  });
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, manifest: input as SceneManifest, issues: [] };
+}
+
+export type ManifestAsset = {
+  path: string;
+  url: string;
+  kind: "image" | "audio";
+};
+
+/** Every asset URL the manifest refers to, with the path that declares it. */
+export function listManifestAssets(manifest: SceneManifest): ManifestAsset[] {
+  const assets: ManifestAsset[] = [
+    { path: "music.src", url: manifest.music.src, kind: "audio" },
+  ];
+  manifest.frames.forEach((frame, index) =>
+    assets.push({ path: `frames[${index}].image`, url: frame.image, kind: "image" })
+  );
+  for (const [frameId, audio] of Object.entries(manifest.frameAudio)) {
+    assets.push({ path: `frameAudio.${frameId}.src`, url: audio.src, kind: "audio" });
+  }
+  manifest.cards.forEach((card, index) =>
+    assets.push({ path: `cards[${index}].image`, url: card.image, kind: "image" })
+  );
+  manifest.letters.forEach((letter, index) =>
+    assets.push({ path: `letters[${index}].image`, url: letter.image, kind: "image" })
+  );
+  return assets;
+}
+
+/**
+ * Requests every asset referenced by the manifest and reports the ones that
+ * are missing. The dev server answers unknown paths with index.html, so an
+ * HTML response counts as missing too. Missing images break the scene and are
+ * errors; missing audio only silences it and is reported as a warning.
+ */
+export async function probeManifestAssets(
+  manifest: SceneManifest
+): Promise<ManifestIssue[]> {
+  const results = await Promise.all(
+    listManifestAssets(manifest).map(async ({ path, url, kind }): Promise<ManifestIssue | null> => {
+      const severity = kind === "image" ? "error" : "warning";
+      try {
+        const response = await fetch(url, { method: "HEAD" });
+        const contentType = response.headers.get("content-type") ?? "";
+        if (!response.ok || contentType.startsWith("text/html")) {
+          return { path, message: `${kind} "${url}" was not found`, severity };
+        }
+        return null;
+      } catch {
+        return { path, message: `${kind} "${url}" could not be requested`, severity };
+      }
+    })
+  );
+  return results.filter((issue): issue is ManifestIssue => issue !== null);
+}
+
+export const isBlockingIssue = (issue: ManifestIssue) =>
+  (issue.severity ?? "error") === "error";
@@ -0,0 +1,81 @@
+/**
+ * Maps intro time onto the typewriter and the scene animation. The
+ * typewriter reveals one character per `charDelay` and spends one more tick
+ * at the end of each line before moving on, skipping blank lines.
+ */
+export type IntroSchedule = {
+  lines: string[];
+  /** Seconds per typewriter tick. */
+  charDelay: number;
+  /** Line indexes in the order they are typed. */
+  typedOrder: number[];
+  /** Typewriter ticks until every line is typed. */
+  ticks: number;
+  typingEnd: number;
+  /** When `AnimatedScene` starts its timeline. */
+  sceneStart: number;
+  /** When the timeline finishes and the candle is lit. */
+  end: number;
+};
+
+export function createIntroSchedule({
+  lines,
+  charDelay,
+  postTypingDelay,
+  sceneDuration,
+}: {
+  lines: string[];
+  charDelay: number;
+  postTypingDelay: number;
+  sceneDuration: number;
+}): IntroSchedule {
+  const typedOrder: number[] = [];
+  let ticks = 0;
+  for (let index = 0; index < lines.length; index++) {
+    if (index > 0 && lines[index].length === 0) {
+      continue;
+    }
+    typedOrder.push(index);
+    ticks += lines[index].length + 1;
+  }
+  const typingEnd = ticks * charDelay;
+  const sceneStart = typingEnd + postTypingDelay;
+  return {
+    lines,
+    charDelay,
+    typedOrder,
+    ticks,
+    typingEnd,
+    sceneStart,
+    end: sceneStart + sceneDuration,
+  };
+}
+
+/** Number of typewriter ticks elapsed at `time`, capped once typing is done. A zero `charDelay` types everything at once. */
+export function typedTicksAt(schedule: IntroSchedule, time: number) {
+  if (schedule.charDelay <= 0) {
+    return schedule.ticks;
+  }
+  return Math.min(schedule.ticks, Math.max(0, Math.floor(time / schedule.charDelay)));
+}
+
+export function typedLinesAt(schedule: IntroSchedule, ticks: number): string[] {
+  const { lines, typedOrder } = schedule;
+  if (lines.length === 0) {
+    return [""];
+  }
+  const typed = lines.map(() => "");
+  let remaining = ticks;
+  for (const index of typedOrder) {
+    const line = lines[index];
+    if (remaining > line.length) {
+      typed[index] = line;
+      remaining -= line.length + 1;
+      continue;
+    }
+    typed[index] = line.slice(0, remaining);
+    return typed;
+  }
+  // Typing finished: blank lines that were skipped show as typed too.
+  return lines.slice();
+}
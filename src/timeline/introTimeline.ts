@@ -0,0 +1,102 @@
+import type { TimelineDefinition } from "./timeline";
+
+/** Targets the intro timeline can animate; see `AnimatedScene`. */
+export const INTRO_TARGETS = [
+  "cake",
+  "table",
+  "candle",
+  "overlay",
+  "environment",
+  "ambientLight",
+  "directionalLight",
+] as const;
+
+export type IntroTargetName = (typeof INTRO_TARGETS)[number];
+
+/**
+ * The default entrance: the cake spins down, the table slides in under it,
+ * the candle drops one second after the cake lands and the typed-text
+ * background fades into the environment meanwhile.
+ * Tracks in `scene.json` under `intro.timeline` replace these by id.
+ */
+export const DEFAULT_INTRO_TIMELINE: TimelineDefinition = {
+  tracks: [
+    {
+      id: "cakeDescent",
+      target: "cake",
+      property: "position.y",
+      keyframes: [
+        { time: 0, value: 10 },
+        { time: 3, value: 0, easing: "easeOutCubic" },
+      ],
+    },
+    {
+      id: "cakeSpin",
+      target: "cake",
+      property: "rotation.y",
+      start: { with: "cakeDescent" },
+      keyframes: [
+        { time: 0, value: 0 },
+        { time: 3, value: Math.PI * 2, easing: "easeOutCubic" },
+      ],
+    },
+    {
+      id: "tableSlide",
+      target: "table",
+      property: "position.z",
+      start: { after: "cakeDescent", offset: -0.8 },
+      keyframes: [
+        { time: 0, value: 30 },
+        { time: 0.7, value: 0, easing: "easeOutCubic" },
+      ],
+    },
+    {
+      id: "candleDrop",
+      target: "candle",
+      property: "position.y",
+      start: { after: "cakeDescent", offset: 1 },
+      keyframes: [
+        { time: 0, value: 5 },
+        { time: 1.2, value: 0, easing: "easeOutCubic" },
+      ],
+    },
+    {
+      id: "candleReveal",
+      target: "candle",
+      property: "visible",
+      start: { with: "candleDrop" },
+      initial: 0,
+      keyframes: [{ time: 0, value: 1 }],
+    },
+    {
+      id: "backgroundFade",
+      target: "overlay",
+      property: "backgroundOpacity",
+      start: { with: "candleDrop", offset: -1 },
+      keyframes: [
+        { time: 0, value: 1 },
+        { time: 1, value: 0, easing: "easeOutCubic" },
+      ],
+    },
+    {
+      id: "environmentFade",
+      target: "environment",
+      property: "progress",
+      start: { with: "backgroundFade" },
+      keyframes: [
+        { time: 0, value: 0 },
+        { time: 1, value: 1, easing: "easeOutCubic" },
+      ],
+    },
+    {
+      id: "ambientDim",
+      target: "ambientLight",
+      property: "intensity",
+      start: { with: "backgroundFade" },
+      keyframes: [
+        { time: 0, value: 0.8 },
+        { time: 1, value: 0, easing: "easeOutCubic" },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,76 @@
+/**
+ * Shared, seekable clock for the intro. The typewriter and the scene
+ * animation both read `now()`, so pausing, changing speed or seeking moves
+ * them together.
+ */
+export type PlaybackClock = {
+  /** Intro time in seconds. */
+  now: () => number;
+  isPlaying: () => boolean;
+  rate: () => number;
+  play: () => void;
+  pause: () => void;
+  setRate: (rate: number) => void;
+  seek: (time: number) => void;
+  /** Called after play, pause, rate changes and seeks. */
+  subscribe: (listener: () => void) => () => void;
+};
+
+export const PLAYBACK_RATES = [0.25, 0.5, 1, 2, 4] as const;
+
+export function createPlaybackClock(
+  realTime: () => number = () => performance.now() / 1000
+): PlaybackClock {
+  const listeners = new Set<() => void>();
+  let playing = false;
+  let speed = 1;
+  // Intro time at the last control change, and the real time it happened at.
+  let anchorTime = 0;
+  let anchorReal = realTime();
+
+  const now = () => (playing ? anchorTime + (realTime() - anchorReal) * speed : anchorTime);
+
+  const reanchor = (time: number) => {
+    anchorTime = Math.max(0, time);
+    anchorReal = realTime();
+  };
+
+  const notify = () => {
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  return {
+    now,
+    isPlaying: () => playing,
+    rate: () => speed,
+    play() {
+      if (playing) return;
+      reanchor(anchorTime);
+      playing = true;
+      notify();
+    },
+    pause() {
+      if (!playing) return;
+      reanchor(now());
+      playing = false;
+      notify();
+    },
+    setRate(rate) {
+      reanchor(now());
+      speed = rate;
+      notify();
+    },
+    seek(time) {
+      reanchor(time);
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import type { TrackValue } from "./timeline";
+
+/** Anything a track can animate: a three.js object, a light, a material or a plain state object. */
+export type AnimationTarget = object;
+
+export type AnimationTargets = Record<string, AnimationTarget | null | undefined>;
+
+type Settable = { set: (x: number, y: number, z: number) => unknown };
+
+const isSettable = (value: unknown): value is Settable =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Partial<Settable>).set === "function";
+
+/**
+ * Writes a sampled track value to a dotted property path. Vector values go
+ * through `.set(x, y, z)` on Vector3/Euler properties, booleans such as
+ * `visible` are on when the value is above 0.5, everything else is assigned.
+ */
+export function setTargetProperty(target: AnimationTarget, path: string, value: TrackValue) {
+  const segments = path.split(".");
+  const key = segments.pop()!;
+  let owner: Record<string, unknown> = target as Record<string, unknown>;
+  for (const segment of segments) {
+    const next = owner[segment];
+    if (typeof next !== "object" || next === null) {
+      return;
+    }
+    owner = next as Record<string, unknown>;
+  }
+
+  const current = owner[key];
+  if (Array.isArray(value)) {
+    if (isSettable(current)) {
+      current.set(value[0], value[1], value[2]);
+    }
+    return;
+  }
+  if (isSettable(current)) {
+    current.set(value, value, value);
+    return;
+  }
+  if (typeof current === "boolean") {
+    owner[key] = value > 0.5;
+    return;
+  }
+  owner[key] = value;
+}
@@ -0,0 +1,245 @@
+import { EASINGS } from "./easing";
+import type { EasingName } from "./easing";
+
+export type TrackValue = number | [number, number, number];
+
+export type Keyframe = {
+  /** Seconds from the start of the track. */
+  time: number;
+  value: TrackValue;
+  /** Curve used to arrive at this keyframe from the previous one. Defaults to linear. */
+  easing?: EasingName;
+};
+
+/**
+ * When a track begins: an absolute time in seconds, or relative to another
+ * track — `after` its last keyframe or `with` its start — plus an offset
+ * that may be negative.
+ */
+export type TrackStart =
+  | number
+  | { after: string; offset?: number }
+  | { with: string; offset?: number };
+
+export type TrackDefinition = {
+  id: string;
+  /** Name of a registered animation target, e.g. `cake` or `overlay`. */
+  target: string;
+  /** Dotted property path on the target, e.g. `position.y` or `intensity`. */
+  property: string;
+  start?: TrackStart;
+  /** Value before the track starts; defaults to the first keyframe's value. */
+  initial?: TrackValue;
+  keyframes: Keyframe[];
+};
+
+export type TimelineDefinition = {
+  tracks: TrackDefinition[];
+};
+
+export type CompiledTrack = TrackDefinition & {
+  startTime: number;
+  endTime: number;
+};
+
+export type CompiledTimeline = {
+  tracks: CompiledTrack[];
+  /** Track start and end times by id, for markers and UI. */
+  trackTimes: Record<string, { start: number; end: number }>;
+  duration: number;
+};
+
+export type TimelineEvent =
+  | { type: "trackStart"; trackId: string }
+  | { type: "trackComplete"; trackId: string }
+  | { type: "complete" };
+
+export class TimelineError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "TimelineError";
+    this.path = path;
+  }
+}
+
+/** Replaces tracks with a matching id and appends the rest. */
+export function mergeTimelines(
+  base: TimelineDefinition,
+  overrides: TimelineDefinition | undefined
+): TimelineDefinition {
+  if (!overrides) {
+    return base;
+  }
+  const overrideIds = new Set(overrides.tracks.map((track) => track.id));
+  return {
+    tracks: [
+      ...base.tracks.filter((track) => !overrideIds.has(track.id)),
+      ...overrides.tracks,
+    ],
+  };
+}
+
+/** Resolves relative starts into absolute times. Throws `TimelineError` on bad references or cycles. */
+export function compileTimeline(definition: TimelineDefinition): CompiledTimeline {
+  const byId = new Map<string, { track: TrackDefinition; index: number }>();
+  definition.tracks.forEach((track, index) => {
+    if (byId.has(track.id)) {
+      throw new TimelineError(`tracks[${index}].id`, `duplicate track id "${track.id}"`);
+    }
+    if (track.keyframes.length === 0) {
+      throw new TimelineError(`tracks[${index}].keyframes`, `track "${track.id}" has no keyframes`);
+    }
+    byId.set(track.id, { track, index });
+  });
+
+  const resolved = new Map<string, { start: number; end: number }>();
+  const resolving = new Set<string>();
+
+  const resolve = (id: string): { start: number; end: number } => {
+    const cached = resolved.get(id);
+    if (cached) {
+      return cached;
+    }
+    const { track, index } = byId.get(id)!;
+    if (resolving.has(id)) {
+      throw new TimelineError(`tracks[${index}].start`, `track "${id}" depends on itself`);
+    }
+    resolving.add(id);
+
+    let start = 0;
+    const spec = track.start ?? 0;
+    if (typeof spec === "number") {
+      start = spec;
+    } else {
+      const reference = "after" in spec ? spec.after : spec.with;
+      if (!byId.has(reference)) {
+        throw new TimelineError(
+          `tracks[${index}].start.${"after" in spec ? "after" : "with"}`,
+          `track "${id}" starts relative to unknown track "${reference}"`
+        );
+      }
+      const other = resolve(reference);
+      start = ("after" in spec ? other.end : other.start) + (spec.offset ?? 0);
+    }
+
+    const lastKeyframe = track.keyframes.reduce((max, keyframe) => Math.max(max, keyframe.time), 0);
+    const times = { start: Math.max(0, start), end: Math.max(0, start) + lastKeyframe };
+    resolving.delete(id);
+    resolved.set(id, times);
+    return times;
+  };
+
+  const tracks = definition.tracks.map((track) => {
+    const { start, end } = resolve(track.id);
+    return {
+      ...track,
+      keyframes: [...track.keyframes].sort((a, b) => a.time - b.time),
+      startTime: start,
+      endTime: end,
+    };
+  });
+
+  return {
+    tracks,
+    trackTimes: Object.fromEntries(resolved),
+    duration: tracks.reduce((max, track) => Math.max(max, track.endTime), 0),
+  };
+}
+
+const interpolate = (from: TrackValue, to: TrackValue, t: number): TrackValue => {
+  if (typeof from === "number" && typeof to === "number") {
+    return from + (to - from) * t;
+  }
+  const a = typeof from === "number" ? [from, from, from] : from;
+  const b = typeof to === "number" ? [to, to, to] : to;
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+};
+
+export function sampleTrack(track: CompiledTrack, time: number): TrackValue {
+  const { keyframes } = track;
+  const local = time - track.startTime;
+  if (local < 0) {
+    return track.initial ?? keyframes[0].value;
+  }
+  if (local <= keyframes[0].time) {
+    return keyframes[0].value;
+  }
+  for (let i = 1; i < keyframes.length; i++) {
+    const next = keyframes[i];
+    if (local <= next.time) {
+      const previous = keyframes[i - 1];
+      const span = next.time - previous.time;
+      const progress = span > 0 ? (local - previous.time) / span : 1;
+      const eased = EASINGS[next.easing ?? "linear"](Math.min(1, Math.max(0, progress)));
+      return interpolate(previous.value, next.value, eased);
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+export type TimelinePlayer = {
+  readonly timeline: CompiledTimeline;
+  /** Current playhead in seconds. */
+  time: () => number;
+  /**
+   * Moves the playhead, applies every track and emits the events crossed on
+   * the way. Seeking backwards re-arms the start and completion events.
+   */
+  seek: (time: number) => void;
+  subscribe: (listener: (event: TimelineEvent) => void) => () => void;
+};
+
+export function createTimelinePlayer(
+  timeline: CompiledTimeline,
+  apply: (track: CompiledTrack, value: TrackValue) => void
+): TimelinePlayer {
+  const listeners = new Set<(event: TimelineEvent) => void>();
+  let current = -Infinity;
+
+  const emit = (event: TimelineEvent) => {
+    for (const listener of listeners) {
+      listener(event);
+    }
+  };
+
+  return {
+    timeline,
+    time: () => Math.max(0, current),
+    seek(time) {
+      const next = Math.min(Math.max(0, time), timeline.duration);
+      const previous = current;
+      current = next;
+      for (const track of timeline.tracks) {
+        apply(track, sampleTrack(track, next));
+      }
+      if (next <= previous) {
+        return;
+      }
+      // A large step can cross several events; deliver them in timeline order.
+      const crossed: { at: number; event: TimelineEvent }[] = [];
+      for (const track of timeline.tracks) {
+        if (previous < track.startTime && next >= track.startTime) {
+          crossed.push({ at: track.startTime, event: { type: "trackStart", trackId: track.id } });
+        }
+        if (previous < track.endTime && next >= track.endTime) {
+          crossed.push({ at: track.endTime, event: { type: "trackComplete", trackId: track.id } });
+        }
+      }
+      if (previous < timeline.duration && next >= timeline.duration) {
+        crossed.push({ at: timeline.duration, event: { type: "complete" } });
+      }
+      crossed.sort((a, b) => a.at - b.at);
+      for (const { event } of crossed) {
+        emit(event);
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}